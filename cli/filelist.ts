@@ -0,0 +1,129 @@
+import { readFileSync, existsSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+/**
+ * Contents of a simulator-style filelist (.f), with nested filelists expanded.
+ */
+export interface FileList {
+  files: string[];                  // Source files, in compilation order
+  includeDirs: string[];            // From +incdir+
+  defines: Record<string, string>;  // From +define+ (value '' if none given)
+}
+
+/**
+ * Read a filelist and every filelist it references.
+ *
+ * Entries we handle:
+ * - path/to/file.sv           (source file)
+ * - -v path/to/lib.sv         (library file, parsed like a source file)
+ * - +incdir+dir1+dir2         (include directories)
+ * - +define+NAME=value+OTHER  (preprocessor defines)
+ * - -f nested.f               (paths relative to the working directory)
+ * - -F nested.f               (paths relative to nested.f itself)
+ * - // and # comments, $VAR / ${VAR} environment variables
+ *
+ * Other options (+libext+, -y, simulator flags) are ignored.
+ *
+ * @param path - Path of the top-level filelist (treated like -f)
+ * @param baseDir - Directory for resolving relative paths (default: cwd)
+ */
+export function readFileList(path: string, baseDir: string = process.cwd()): FileList {
+  const result: FileList = { files: [], includeDirs: [], defines: {} };
+  readInto(resolve(baseDir, path), baseDir, result, []);
+  return result;
+}
+
+/**
+ * Read one filelist into the accumulated result.
+ */
+function readInto(path: string, baseDir: string, result: FileList, stack: string[]): void {
+  if (stack.includes(path)) {
+    throw new Error(`Filelist includes itself: ${[...stack, path].join(' -> ')}`);
+  }
+  if (!existsSync(path)) {
+    throw new Error(`Filelist not found: ${path}`);
+  }
+
+  const tokens = tokenize(readFileSync(path, 'utf-8'));
+  const nestedStack = [...stack, path];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token === '-f' || token === '-F') {
+      const nested = tokens[++i];
+      if (!nested) {
+        throw new Error(`Missing filelist after ${token} in ${path}`);
+      }
+      const nestedPath = resolve(baseDir, nested);
+      // -F resolves the nested filelist's entries relative to its own directory
+      readInto(nestedPath, token === '-F' ? dirname(nestedPath) : baseDir, result, nestedStack);
+    } else if (token === '-v') {
+      const libFile = tokens[++i];
+      if (libFile) {
+        addUnique(result.files, resolve(baseDir, libFile));
+      }
+    } else if (token.startsWith('+incdir+')) {
+      for (const dir of splitPlusArgs(token, '+incdir+')) {
+        addUnique(result.includeDirs, resolve(baseDir, dir));
+      }
+    } else if (token.startsWith('+define+')) {
+      for (const define of splitPlusArgs(token, '+define+')) {
+        const eq = define.indexOf('=');
+        if (eq < 0) {
+          result.defines[define] = '';
+        } else {
+          result.defines[define.slice(0, eq)] = define.slice(eq + 1);
+        }
+      }
+    } else if (token === '-y') {
+      i++; // Library directories don't contribute sources
+    } else if (token.startsWith('-') || token.startsWith('+')) {
+      // Other simulator flags and plusargs
+    } else {
+      addUnique(result.files, resolve(baseDir, token));
+    }
+  }
+}
+
+/**
+ * Split a filelist into whitespace-separated tokens, dropping comments
+ * and expanding environment variables.
+ */
+function tokenize(text: string): string[] {
+  const withoutComments = text
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/\/\/.*$/gm, '')
+    .replace(/^\s*#.*$/gm, '');
+
+  return withoutComments
+    .split(/\s+/)
+    .filter((t) => t.length > 0)
+    .map(expandEnvVars);
+}
+
+/**
+ * Expand $VAR, ${VAR} and $(VAR) references.
+ */
+function expandEnvVars(token: string): string {
+  return token.replace(/\$(?:\{(\w+)\}|\((\w+)\)|(\w+))/g, (match, a, b, c) => {
+    const value = process.env[a || b || c];
+    return value !== undefined ? value : match;
+  });
+}
+
+/**
+ * Split +incdir+a+b or +define+A=1+B into its arguments.
+ */
+function splitPlusArgs(token: string, prefix: string): string[] {
+  return token.slice(prefix.length).split('+').filter((a) => a.length > 0);
+}
+
+/**
+ * Append an item unless it is already in the list.
+ */
+function addUnique(list: string[], item: string): void {
+  if (!list.includes(item)) {
+    list.push(item);
+  }
+}
@@ -1,7 +1,9 @@
 import { Command } from 'commander';
-import { readFileSync, writeFileSync, existsSync } from 'fs';
-import { extract, extractFSMs, mightContainFSM } from '../src/index.js';
-import type { ExtractOptions } from '../src/types.js';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname, isAbsolute, join, resolve } from 'path';
+import { extract, extractAll, extractAllFromFiles, extractFromFiles, extractFSMs, extractFSMsFromFiles, formatOutput, getOutputTable, mightContainFSM } from '../src/index.js';
+import type { ExtractOptions, ModuleAnalysis, PreprocessOptions, SourceFile } from '../src/types.js';
+import { readFileList } from './filelist.js';
 
 const program = new Command();
 
@@ -10,10 +12,148 @@ program
   .description('Extract FSM state machines from SystemVerilog and generate Mermaid diagrams')
   .version('1.0.0');
 
+/**
+ * Read source files, exiting with an error if any is missing.
+ */
+function readSourceFiles(files: string[]): SourceFile[] {
+  for (const file of files) {
+    if (!existsSync(file)) {
+      console.error(`Error: File not found: ${file}`);
+      process.exit(1);
+    }
+  }
+  return files.map((path) => ({ path, source: readFileSync(path, 'utf-8') }));
+}
+
+/**
+ * Collect repeated option values (-D A -D B).
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Resolve `include names against the including file's directory, then the
+ * working directory and the include directories in order.
+ *
+ * @param topFile - Path of the file being preprocessed when the caller does
+ *                  not pass one (single-file extraction)
+ */
+function createIncludeResolver(includeDirs: string[], topFile: string): PreprocessOptions['resolveInclude'] {
+  return (name, fromFile) => {
+    const candidates = isAbsolute(name)
+      ? [name]
+      : [dirname(fromFile || topFile), process.cwd(), ...includeDirs].map((dir) => join(dir, name));
+    const path = candidates.find((candidate) => existsSync(candidate));
+    return path ? { path, source: readFileSync(path, 'utf-8') } : null;
+  };
+}
+
+/**
+ * Collect the input files and preprocessor settings from the command line
+ * and an optional filelist.
+ */
+function loadSources(
+  files: string[],
+  opts: { filelist?: string; define: string[]; incdir: string[] }
+): { sources: SourceFile[]; preprocess: PreprocessOptions } {
+  const paths = [...files];
+  const includeDirs: string[] = [];
+  const defines: Record<string, string> = {};
+
+  if (opts.filelist) {
+    const list = readFileList(opts.filelist);
+    paths.push(...list.files);
+    includeDirs.push(...list.includeDirs);
+    Object.assign(defines, list.defines);
+  }
+  includeDirs.push(...opts.incdir.map((dir) => resolve(dir)));
+  for (const define of opts.define) {
+    const eq = define.indexOf('=');
+    defines[eq < 0 ? define : define.slice(0, eq)] = eq < 0 ? '' : define.slice(eq + 1);
+  }
+
+  if (paths.length === 0) {
+    console.error('Error: No input files. Pass SystemVerilog file(s) or --filelist <file.f>');
+    process.exit(1);
+  }
+  return {
+    sources: readSourceFiles(paths),
+    preprocess: { defines, resolveInclude: createIncludeResolver(includeDirs, paths[0]) },
+  };
+}
+
+/**
+ * Print the analysis of one module.
+ */
+function printAnalysis(analysis: ModuleAnalysis): void {
+  console.log(`Module: ${analysis.moduleName}`);
+  if (analysis.file) {
+    console.log(`File: ${analysis.file}`);
+  }
+  console.log(`FSMs found: ${analysis.fsms.length}`);
+  console.log('');
+
+  for (const fsm of analysis.fsms) {
+    console.log(`FSM: ${fsm.name}`);
+    console.log(`  States: ${fsm.states.map((s) => s.name).join(', ')}`);
+    console.log(`  Transitions: ${fsm.transitions.length}`);
+    console.log(`  Reset state: ${fsm.resetState || 'not detected'}`);
+    console.log(`  Block style: ${fsm.blockStyle}`);
+    if (fsm.instances) {
+      const count = fsm.instances.count ?? fsm.instances.countExpr;
+      const scope = fsm.instances.scope ? ` in ${fsm.instances.scope}` : '';
+      console.log(`  Instances: ${count}${scope}`);
+    }
+    if (fsm.unusedEncodings) {
+      const recovery = fsm.unusedEncodings.recoveryState ?? 'none';
+      console.log(`  Unused encodings: ${fsm.unusedEncodings.count} (recovery: ${recovery})`);
+    }
+    console.log(`  Confidence: ${(fsm.confidence * 100).toFixed(0)}%`);
+
+    const outputTable = getOutputTable(fsm);
+    if (outputTable.signals.length > 0) {
+      console.log('  Outputs:');
+      for (const row of outputTable.rows) {
+        const values = outputTable.signals
+          .filter((signal) => row.values[signal])
+          .map((signal) => `${formatOutput(row.values[signal])}${row.values[signal].isInherited ? ' (default)' : ''}`);
+        console.log(`    ${row.state}: ${values.join(', ') || '-'}`);
+      }
+    }
+
+    if (fsm.warnings.length > 0) {
+      console.log('  Warnings:');
+      for (const warning of fsm.warnings) {
+        console.log(`    - ${warning.type}: ${warning.message}`);
+      }
+    }
+
+    console.log('');
+  }
+
+  if (analysis.parseErrors.length > 0) {
+    console.log('Parse errors:');
+    for (const error of analysis.parseErrors) {
+      const location = `${error.file ? `${error.file}:` : 'line '}${error.line}${error.column ? `:${error.column}` : ''}`;
+      console.log(`  - ${location}: ${error.message}`);
+      if (error.snippet) {
+        console.log(`      ${error.snippet}`);
+      }
+      if (error.fsms && error.fsms.length > 0) {
+        console.log(`      inside FSM ${error.fsms.join(', ')}; diagram may be incomplete`);
+      }
+    }
+  }
+}
+
 program
   .command('extract')
-  .description('Extract FSM from a SystemVerilog file')
-  .argument('<file>', 'SystemVerilog file to process')
+  .description('Extract FSM from SystemVerilog file(s); pass package files alongside the module')
+  .argument('[files...]', 'SystemVerilog file(s) to process')
+  .option('-F, --filelist <file>', 'Filelist (.f) with sources, +incdir+, +define+ and nested -f entries')
+  .option('-D, --define <macro>', 'Define a preprocessor macro (NAME or NAME=value, repeatable)', collect, [])
+  .option('-I, --incdir <dir>', 'Add an `include search directory (repeatable)', collect, [])
   .option('-o, --output <file>', 'Output file (default: stdout)')
   .option('-f, --format <format>', 'Output format: mermaid | json (default: mermaid)', 'mermaid')
   .option('-d, --direction <dir>', 'Diagram direction: TB | LR (default: TB)', 'TB')
@@ -22,19 +162,15 @@ program
   .option('-w, --warnings', 'Show validation warnings', false)
   .option('-m, --module <name>', 'Extract specific module only')
   .option('--fsm <name>', 'Extract specific FSM (if multiple per module)')
-  .action(async (file: string, opts) => {
+  .option('-a, --all', 'Emit every FSM: Markdown with a section per FSM, or a JSON array', false)
+  .option('--output-dir <dir>', 'Write one file per FSM (<module>.<fsm>.mmd or .json) into a directory')
+  .action(async (files: string[], opts) => {
     try {
-      // Check file exists
-      if (!existsSync(file)) {
-        console.error(`Error: File not found: ${file}`);
-        process.exit(1);
-      }
-
-      // Read source
-      const source = readFileSync(file, 'utf-8');
+      // Read sources
+      const { sources, preprocess } = loadSources(files, opts);
 
       // Quick check
-      if (!mightContainFSM(source)) {
+      if (!sources.some((f) => mightContainFSM(f.source))) {
         console.error('Warning: Source does not appear to contain FSM patterns.');
         console.error('Attempting extraction anyway...');
       }
@@ -48,10 +184,30 @@ program
         warnings: opts.warnings,
         module: opts.module,
         fsm: opts.fsm,
+        all: opts.all,
+        preprocess,
       };
 
-      // Extract
-      const output = await extract(source, extractOpts);
+      const project = sources.length > 1 || Boolean(opts.filelist);
+
+      // One file per FSM
+      if (opts.outputDir) {
+        const rendered = project
+          ? await extractAllFromFiles(sources, extractOpts)
+          : await extractAll(sources[0].source, extractOpts);
+        mkdirSync(opts.outputDir, { recursive: true });
+        for (const entry of rendered) {
+          const path = join(opts.outputDir, entry.fileName);
+          writeFileSync(path, entry.content + '\n');
+          console.error(`Output written to: ${path}`);
+        }
+        return;
+      }
+
+      // Extract (a project is parsed as one compilation unit so package imports resolve)
+      const output = project
+        ? await extractFromFiles(sources, extractOpts)
+        : await extract(sources[0].source, extractOpts);
 
       // Output
       if (opts.output) {
@@ -69,44 +225,40 @@ program
 program
   .command('analyze')
   .description('Analyze FSM structure without generating output')
-  .argument('<file>', 'SystemVerilog file to process')
-  .action(async (file: string) => {
+  .argument('[files...]', 'SystemVerilog file(s) to process')
+  .option('-F, --filelist <file>', 'Filelist (.f) with sources, +incdir+, +define+ and nested -f entries')
+  .option('-D, --define <macro>', 'Define a preprocessor macro (NAME or NAME=value, repeatable)', collect, [])
+  .option('-I, --incdir <dir>', 'Add an `include search directory (repeatable)', collect, [])
+  .option('-m, --module <name>', 'Analyze specific module only')
+  .option('--fsm <name>', 'Analyze specific FSM only')
+  .action(async (files: string[], opts) => {
     try {
-      if (!existsSync(file)) {
-        console.error(`Error: File not found: ${file}`);
+      const { sources, preprocess } = loadSources(files, opts);
+      const analyses: ModuleAnalysis[] = sources.length === 1 && !opts.filelist
+        ? await extractFSMs(sources[0].source, preprocess)
+        : await extractFSMsFromFiles(sources, preprocess);
+
+      const inModule = opts.module
+        ? analyses.filter((a) => a.moduleName === opts.module)
+        : analyses;
+      if (inModule.length === 0) {
+        console.error(`Error: Module '${opts.module}' not found. Available: ${analyses.map((a) => a.moduleName).join(', ')}`);
         process.exit(1);
       }
 
-      const source = readFileSync(file, 'utf-8');
-      const analysis = await extractFSMs(source);
-
-      console.log(`Module: ${analysis.moduleName}`);
-      console.log(`FSMs found: ${analysis.fsms.length}`);
-      console.log('');
-
-      for (const fsm of analysis.fsms) {
-        console.log(`FSM: ${fsm.name}`);
-        console.log(`  States: ${fsm.states.map((s) => s.name).join(', ')}`);
-        console.log(`  Transitions: ${fsm.transitions.length}`);
-        console.log(`  Reset state: ${fsm.resetState || 'not detected'}`);
-        console.log(`  Block style: ${fsm.blockStyle}`);
-        console.log(`  Confidence: ${(fsm.confidence * 100).toFixed(0)}%`);
-
-        if (fsm.warnings.length > 0) {
-          console.log('  Warnings:');
-          for (const warning of fsm.warnings) {
-            console.log(`    - ${warning.type}: ${warning.message}`);
-          }
-        }
-
-        console.log('');
+      const selected = opts.fsm
+        ? inModule
+          .map((a) => ({ ...a, fsms: a.fsms.filter((f) => f.name === opts.fsm) }))
+          .filter((a) => a.fsms.length > 0)
+        : inModule;
+      if (selected.length === 0) {
+        const available = inModule.flatMap((a) => a.fsms.map((f) => f.name));
+        console.error(`Error: FSM '${opts.fsm}' not found. Available: ${available.join(', ')}`);
+        process.exit(1);
       }
 
-      if (analysis.parseErrors.length > 0) {
-        console.log('Parse errors:');
-        for (const error of analysis.parseErrors) {
-          console.log(`  - ${error}`);
-        }
+      for (const analysis of selected) {
+        printAnalysis(analysis);
       }
     } catch (error) {
       console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -8,6 +8,11 @@ import {
   findFirstNodeOfType,
 } from '../parser/ast-walker.js';
 import { isResetSignalName } from '../parser/queries.js';
+import { buildStatement } from '../parser/statement-ir.js';
+import type { CaseStatement } from '../parser/statement-ir.js';
+import { isReverseStateCase } from './onehot-detector.js';
+import { findStateIfChains } from './if-chain-detector.js';
+import { findCalledDispatches, getCallOutputs } from './subroutine-inliner.js';
 import type { AlwaysBlock, StateRegister } from '../types.js';
 
 /**
@@ -29,10 +34,7 @@ export function analyzeAlwaysBlocks(
   const alwaysNodes = findNodesOfType(root, 'always_construct');
 
   for (const alwaysNode of alwaysNodes) {
-    const block = analyzeAlwaysBlock(alwaysNode, stateVarNames);
-    if (block) {
-      results.push(block);
-    }
+    results.push(analyzeAlwaysBlock(alwaysNode, stateVarNames));
   }
 
   return results;
@@ -40,11 +42,13 @@ export function analyzeAlwaysBlocks(
 
 /**
  * Analyze a single always block.
+ *
+ * @param stateVarNames - Variables to report in stateAssignments
  */
-function analyzeAlwaysBlock(
+export function analyzeAlwaysBlock(
   alwaysNode: SyntaxNode,
-  stateVarNames: Set<string>
-): AlwaysBlock | null {
+  stateVarNames: Set<string> = new Set()
+): AlwaysBlock {
   const text = getNodeText(alwaysNode);
   const line = getNodeLine(alwaysNode);
 
@@ -71,6 +75,17 @@ function analyzeAlwaysBlock(
   };
 }
 
+/**
+ * Check if an always block is clocked (always_ff or legacy always @(posedge ...)).
+ */
+export function isClockedBlock(block: AlwaysBlock): boolean {
+  if (block.type === 'always_ff') {
+    return true;
+  }
+  return block.type === 'always' &&
+    (block.sensitivityList || []).some((s) => /^(posedge|negedge)\b/i.test(s));
+}
+
 /**
  * Detect the type of always block.
  *
@@ -248,8 +263,8 @@ function findStateAssignments(
       node.type === 'nonblocking_assignment'
     ) {
       const text = getNodeText(node);
-      // Extract target variable
-      const match = text.match(/^\s*(\w+)\s*<?=/);
+      // Extract target variable (next_state[RUN_B] = 1'b1 assigns next_state)
+      const match = text.match(/^\s*(\w+)\s*(?:\[[^\]]*\]\s*)?<?=/);
       if (match) {
         const target = match[1];
         if (stateVarNames.has(target)) {
@@ -259,13 +274,24 @@ function findStateAssignments(
         }
       }
     }
+
+    // compute_next(state, next_state); (task output argument)
+    if (node.type === 'tf_call') {
+      for (const target of getCallOutputs(node)) {
+        if (stateVarNames.has(target) && !assignments.includes(target)) {
+          assignments.push(target);
+        }
+      }
+    }
   });
 
   return assignments;
 }
 
 /**
- * Find case statements on state variables in an always block.
+ * Find the statements that dispatch on state variables in an always block:
+ * case statements first, then if/else-if chains on the state, then the
+ * dispatches inside functions and tasks called with a state variable.
  */
 export function findStateCaseStatements(
   alwaysNode: SyntaxNode,
@@ -279,9 +305,20 @@ export function findStateCaseStatements(
     const caseExpr = getCaseExpression(caseStmt);
     if (caseExpr && stateVarNames.has(caseExpr)) {
       caseStatements.push(caseStmt);
+    } else if (isReverseStateCase(buildStatement(caseStmt) as CaseStatement, stateVarNames)) {
+      // case (1'b1) state[IDLE_B]: ... (one-hot)
+      caseStatements.push(caseStmt);
     }
   }
 
+  // if (state == IDLE) ... else if (state == RUN) ...
+  caseStatements.push(...findStateIfChains(alwaysNode, stateVarNames));
+
+  // next_state = next_st(state, go); (case (cur) inside the function)
+  if (alwaysNode.type === 'always_construct') {
+    caseStatements.push(...findCalledDispatches(alwaysNode, stateVarNames, findStateCaseStatements));
+  }
+
   return caseStatements;
 }
 
@@ -291,8 +328,9 @@ export function findStateCaseStatements(
 export function getCaseExpression(caseStmt: SyntaxNode): string | null {
   const text = getNodeText(caseStmt);
 
-  // Extract case expression: case (expr) or casez (expr)
-  const match = text.match(/case[zx]?\s*\(\s*(\w+)\s*\)/i);
+  // Extract case expression: case (expr) or casez (expr); an element
+  // select of a state array (case (state_q[i])) switches on the array
+  const match = text.match(/case[zx]?\s*\(\s*(\w+)\s*(?:\[[^\]]*\]\s*)?\)/i);
   if (match) {
     return match[1];
   }
@@ -313,11 +351,15 @@ export function getCaseExpression(caseStmt: SyntaxNode): string | null {
 
 /**
  * Determine FSM block style from always blocks.
+ *
+ * @param hasOutputBlock - A separate block cases on the state to drive
+ *                         outputs (the third block of the Cummings style)
  */
 export function detectBlockStyle(
   alwaysBlocks: AlwaysBlock[],
   stateVarName: string,
-  nextStateVarName?: string
+  nextStateVarName?: string,
+  hasOutputBlock = false
 ): 'one-block' | 'two-block' | 'three-block' {
   // Find blocks that assign to state variables
   const stateAssigners = alwaysBlocks.filter((b) =>
@@ -341,9 +383,8 @@ export function detectBlockStyle(
     const combBlocks = nextStateAssigners.filter((b) => b.type === 'always_comb' || b.type === 'always');
 
     if (ffBlocks.length >= 1 && combBlocks.length >= 1) {
-      // Check for three-block: separate output logic
-      // (Hard to detect without more analysis, default to two-block)
-      return 'two-block';
+      // Three-block: separate output logic
+      return hasOutputBlock ? 'three-block' : 'two-block';
     }
   }
 
@@ -0,0 +1,396 @@
+import { stripPackageScope } from '../parser/queries.js';
+import type { CaseStatement } from '../parser/statement-ir.js';
+import { parseVerilogNumber } from './enum-detector.js';
+import type { EnumDefinition } from '../types.js';
+
+/**
+ * A literal label as value/mask bits (mask bit set = bit must match).
+ */
+interface LabelPattern {
+  value: number;
+  mask: number;
+}
+
+const DIGIT_BITS: Record<string, number> = { b: 1, o: 3, h: 4 };
+
+/**
+ * Compute the numeric encoding of each state.
+ *
+ * Evaluated values are used first; otherwise explicit encodings are parsed,
+ * and enum members without one follow the enum rule (previous value + 1,
+ * starting at 0).
+ */
+export function getStateEncodings(enumDef: EnumDefinition): Map<string, number> {
+  const encodings = new Map<string, number>();
+  let next = 0;
+
+  for (const state of enumDef.states) {
+    const value = state.value ?? (state.encoding !== undefined ? parseVerilogNumber(state.encoding) : next);
+    if (value === null) {
+      continue;
+    }
+    encodings.set(state.name, value);
+    next = value + 1;
+  }
+
+  return encodings;
+}
+
+/**
+ * Resolve the case items of a state case statement to the states they
+ * handle, in source order.
+ *
+ * Patterns we handle:
+ * - IDLE, WAIT:                 (one entry per label)
+ * - my_pkg::IDLE:               (scope-qualified labels)
+ * - 2'b01:                      (literal matched against the encodings)
+ * - casez: 3'b1??:  casex: 3'b1x0:  case inside: 3'b1?0:
+ *                               (wildcards cover every matching encoding)
+ * - case inside [IDLE:WAIT]:    (ranges cover the encodings between bounds)
+ * - case (1'b1) state[IDLE_B]:  (reverse-case one-hot, see resolveStateBit)
+ *
+ * As in simulation, a state is taken by the first item that matches it;
+ * later items covering the same state do not apply to it. The default item
+ * takes the states no other item covers, wherever it is written.
+ *
+ * @returns For each case item (same order as caseStmt.items), the states
+ *          it handles; empty for unmatched items
+ */
+export function resolveCaseItemStates(
+  caseStmt: CaseStatement,
+  stateNames: Set<string>,
+  encodings: Map<string, number> = new Map()
+): string[][] {
+  const taken = new Set<string>();
+
+  const itemStates = caseStmt.items.map((item) => {
+    if (item.isDefault) {
+      return [];
+    }
+
+    const states: string[] = [];
+    for (const label of item.labels) {
+      for (const state of resolveLabel(label, caseStmt, stateNames, encodings)) {
+        if (!taken.has(state)) {
+          taken.add(state);
+          states.push(state);
+        }
+      }
+    }
+    return states;
+  });
+
+  const uncovered = Array.from(stateNames).filter((state) => !taken.has(state));
+  return caseStmt.items.map((item, index) => (item.isDefault ? uncovered : itemStates[index]));
+}
+
+/**
+ * Resolve one case label to state names.
+ */
+function resolveLabel(
+  label: string,
+  caseStmt: CaseStatement,
+  stateNames: Set<string>,
+  encodings: Map<string, number>
+): string[] {
+  const name = stripPackageScope(label);
+  if (stateNames.has(name)) {
+    return [name];
+  }
+
+  // case (1'b1) state[IDLE_B]: (reverse-case one-hot)
+  if (isOneBit(caseStmt.expression)) {
+    const state = resolveStateBit(label, stateNames, encodings);
+    return state ? [state] : [];
+  }
+
+  const candidates = Array.from(stateNames).filter((s) => encodings.has(s));
+
+  // [LO:HI] range (case inside)
+  const range = label.match(/^\[\s*(.+?)\s*:\s*(.+?)\s*\]$/);
+  if (range && caseStmt.isInside) {
+    const low = range[1] === '$' ? -Infinity : resolveValue(range[1], encodings);
+    const high = range[2] === '$' ? Infinity : resolveValue(range[2], encodings);
+    if (low === null || high === null) {
+      return [];
+    }
+    return candidates.filter((s) => {
+      const value = encodings.get(s)!;
+      return value >= low && value <= high;
+    });
+  }
+
+  const pattern = parseLabelPattern(label, wildcardDigits(caseStmt));
+  if (!pattern) {
+    return [];
+  }
+  return candidates.filter((s) => (encodings.get(s)! & pattern.mask) === (pattern.value & pattern.mask));
+}
+
+/**
+ * Get the digits a case statement treats as wildcards in its labels.
+ */
+function wildcardDigits(caseStmt: CaseStatement): string {
+  if (caseStmt.keyword === 'casex' || caseStmt.isInside) {
+    return '?zx';
+  }
+  if (caseStmt.keyword === 'casez') {
+    return '?z';
+  }
+  return '';
+}
+
+/**
+ * Resolve a range bound: a state name or a number.
+ */
+function resolveValue(text: string, encodings: Map<string, number>): number | null {
+  const name = stripPackageScope(text);
+  return encodings.has(name) ? encodings.get(name)! : parseVerilogNumber(text);
+}
+
+/**
+ * Parse a literal label into value/mask bits.
+ *
+ * @param wildcards - Digits that match anything, e.g. "?z" for casez
+ */
+function parseLabelPattern(label: string, wildcards: string): LabelPattern | null {
+  const based = label.trim().match(/^(\d*)\s*'[sS]?([bBoOhHdD])\s*([0-9a-fA-FxXzZ?_]+)$/);
+  if (!based) {
+    const value = parseVerilogNumber(label);
+    return value === null ? null : { value, mask: ~0 };
+  }
+
+  const base = based[2].toLowerCase();
+  const digits = based[3].replace(/_/g, '').toLowerCase();
+  if (base === 'd') {
+    const value = parseVerilogNumber(label);
+    return value === null ? null : { value, mask: ~0 };
+  }
+
+  const bitsPerDigit = DIGIT_BITS[base];
+  const digitMask = (1 << bitsPerDigit) - 1;
+  let value = 0;
+  let mask = 0;
+
+  for (const digit of digits) {
+    value <<= bitsPerDigit;
+    mask <<= bitsPerDigit;
+    if (wildcards.includes(digit)) {
+      continue;
+    }
+    const digitValue = parseInt(digit, 1 << bitsPerDigit);
+    if (Number.isNaN(digitValue)) {
+      return null; // x/z outside a wildcard case never matches an encoding
+    }
+    value |= digitValue;
+    mask |= digitMask;
+  }
+
+  // Bits above the label width must be zero
+  const width = based[1] ? parseInt(based[1], 10) : digits.length * bitsPerDigit;
+  if (width < 31) {
+    mask |= ~((1 << width) - 1);
+    value &= (1 << width) - 1;
+  }
+
+  return { value, mask };
+}
+
+/**
+ * Resolve an assigned value to a state name.
+ *
+ * Patterns we handle:
+ * - RUN, my_pkg::RUN
+ * - 3'b010                      (matched against the encodings)
+ * - state_t'(2)                 (casts are looked through)
+ * - state.first(), state.last()
+ * - state.next(), state.prev(2) (declaration order, wrapping around)
+ * - state + 1, state_t'(state - 1)
+ *                               (arithmetic on the current state's encoding)
+ * - state                       (the current state)
+ *
+ * @param current - State variable and the state it holds where the value
+ *                  is assigned; needed for relative values
+ */
+export function resolveStateValue(
+  value: string,
+  stateNames: Set<string>,
+  encodings: Map<string, number> = new Map(),
+  current?: { varName: string; state: string }
+): string | null {
+  const text = stripCast(value);
+  const name = stripPackageScope(text);
+  if (stateNames.has(name)) {
+    return name;
+  }
+  if (current && text.replace(/\[[^\]]*\]$/, '') === current.varName) {
+    return current.state; // state, or state_q[i] for a state array
+  }
+
+  const method = text.match(/^(\w+)(?:\[[^\]]*\])?\s*\.\s*(first|last|next|prev)\s*(?:\(\s*([^)]*?)\s*\))?$/);
+  if (method) {
+    return resolveEnumMethod(method[1], method[2], method[3], stateNames, current);
+  }
+
+  const arithmetic = text.match(/^(\w+)(?:\[[^\]]*\])?\s*([+-])\s*(.+)$/);
+  if (arithmetic) {
+    const step = parseVerilogNumber(arithmetic[3]);
+    if (!current || arithmetic[1] !== current.varName || step === null || !encodings.has(current.state)) {
+      return null;
+    }
+    const encoding = encodings.get(current.state)! + (arithmetic[2] === '+' ? step : -step);
+    return findStateByEncoding(encoding, stateNames, encodings);
+  }
+
+  // Plain integers only count under a cast: state_t'(2)
+  const isLiteral = /^\d*\s*'[sS]?[bBoOhHdD]\s*[0-9a-fA-F_]+$/.test(text) || (text !== value.trim() && /^\d+$/.test(text));
+  if (!isLiteral) {
+    return null;
+  }
+  const literal = parseVerilogNumber(text);
+  return literal === null ? null : findStateByEncoding(literal, stateNames, encodings);
+}
+
+/**
+ * Resolve an enum method call on a state variable.
+ *
+ * first()/last() don't depend on the current state; next(N)/prev(N) step
+ * through the declaration order and wrap around, as in SystemVerilog.
+ */
+function resolveEnumMethod(
+  varName: string,
+  method: string,
+  argument: string | undefined,
+  stateNames: Set<string>,
+  current?: { varName: string; state: string }
+): string | null {
+  const order = Array.from(stateNames);
+  if (order.length === 0 || (current && varName !== current.varName)) {
+    return null;
+  }
+  if (method === 'first') {
+    return order[0];
+  }
+  if (method === 'last') {
+    return order[order.length - 1];
+  }
+
+  const index = current ? order.indexOf(current.state) : -1;
+  const step = argument ? parseVerilogNumber(argument) : 1;
+  if (index < 0 || step === null) {
+    return null;
+  }
+  const offset = method === 'next' ? step : -step;
+  return order[(((index + offset) % order.length) + order.length) % order.length];
+}
+
+/**
+ * Find the state with an encoding.
+ */
+function findStateByEncoding(
+  encoding: number,
+  stateNames: Set<string>,
+  encodings: Map<string, number>
+): string | null {
+  for (const [state, value] of encodings) {
+    if (value === encoding && stateNames.has(state)) {
+      return state;
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove casts and parentheses wrapping a whole value: state_t'(x), (x).
+ */
+function stripCast(value: string): string {
+  let text = value.trim();
+  for (;;) {
+    const cast = text.match(/^(?:[\w:]+)?'\((.*)\)$/s) || text.match(/^\((.*)\)$/s);
+    if (!cast || !isBalanced(cast[1])) {
+      return text;
+    }
+    text = cast[1].trim();
+  }
+}
+
+/**
+ * Check that parentheses never close more than they opened.
+ */
+function isBalanced(text: string): boolean {
+  let depth = 0;
+  for (const ch of text) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (depth < 0) {
+      return false;
+    }
+  }
+  return depth === 0;
+}
+
+/**
+ * Resolve the state a one-hot bit select refers to.
+ *
+ * Patterns we handle:
+ * - state[IDLE_B]               (bit-position parameter named as the state)
+ * - state[0]                    (matched against the one-hot encodings)
+ *
+ * @param varNames - Variables the bit select may index, or undefined for any
+ * @returns The state, or null if the text is not a bit select of a state
+ */
+export function resolveStateBit(
+  text: string,
+  stateNames: Set<string>,
+  encodings: Map<string, number> = new Map(),
+  varNames?: Set<string>
+): string | null {
+  const match = text.replace(/\s+/g, '').match(/^(\w+)\[([^\]:]+)\]$/);
+  if (!match || (varNames && !varNames.has(match[1]))) {
+    return null;
+  }
+
+  const index = stripPackageScope(match[2]);
+  if (stateNames.has(index)) {
+    return index;
+  }
+
+  const position = parseVerilogNumber(index);
+  if (position === null) {
+    return null;
+  }
+  return findStateByEncoding(2 ** position, stateNames, encodings);
+}
+
+/**
+ * Check if a value is a single set bit: 1, 1'b1, 1'h1.
+ */
+export function isOneBit(value: string): boolean {
+  return /^(?:1|1'[bBhHdD]1)$/.test(value.replace(/\s+/g, ''));
+}
+
+/**
+ * Resolve the state an assignment moves to.
+ *
+ * Patterns we handle:
+ * - next_state = RUN; next_state = 2'b01;
+ * - next_state[RUN_B] = 1'b1;  (one-hot)
+ * - state_d[i] = RUN;          (element of a state register array)
+ * - next_state = state.next();  (relative to current, see resolveStateValue)
+ *
+ * @param varName - Variable a one-hot bit select must index
+ */
+export function resolveAssignedState(
+  target: string,
+  value: string,
+  varName: string,
+  stateNames: Set<string>,
+  encodings: Map<string, number>,
+  current?: { varName: string; state: string }
+): string | null {
+  if (target.includes('[') && isOneBit(value)) {
+    return resolveStateBit(target, stateNames, encodings, new Set([varName]));
+  }
+  // state_d[i] = RUN assigns an element of a state array
+  return resolveStateValue(value, stateNames, encodings, current);
+}
@@ -0,0 +1,329 @@
+import type { SyntaxNode } from '../parser/ast-walker.js';
+import { findNodesOfType, getChildOfType, getNodeText } from '../parser/ast-walker.js';
+
+// Binding power of each binary operator (higher binds tighter)
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '**': 12,
+  '*': 11, '/': 11, '%': 11,
+  '+': 10, '-': 10,
+  '<<': 9, '>>': 9, '<<<': 9, '>>>': 9,
+  '<': 8, '<=': 8, '>': 8, '>=': 8,
+  '==': 7, '!=': 7, '===': 7, '!==': 7,
+  '&': 6,
+  '^': 5, '~^': 5, '^~': 5,
+  '|': 4,
+  '&&': 3,
+  '||': 2,
+};
+
+const OPERATORS = [
+  '===', '!==', '<<<', '>>>',
+  '**', '<<', '>>', '<=', '>=', '==', '!=', '&&', '||', '~^', '^~', "'(", "'{",
+  '+', '-', '*', '/', '%', '<', '>', '&', '|', '^', '~', '!', '?', ':', '(', ')', '{', '}', ',',
+];
+
+type Token =
+  | { kind: 'number'; value: number; width?: number }
+  | { kind: 'fill'; bit: 0 | 1 }
+  | { kind: 'name'; text: string }
+  | { kind: 'op'; text: string };
+
+/**
+ * Evaluate every parameter and localparam of a module or package, in
+ * declaration order, so later parameters can use earlier ones.
+ *
+ * Patterns we handle:
+ * - module m #(parameter W = 2) (...);
+ * - localparam N = 1 << W, LAST = N - 1;
+ * - localparam int AW = $clog2(DEPTH);
+ *
+ * Parameters whose value isn't a constant expression (types, strings,
+ * unresolved names) are left out.
+ */
+export function buildParameterTable(root: SyntaxNode): Map<string, number> {
+  const params = new Map<string, number>();
+
+  for (const assignment of findNodesOfType(root, 'param_assignment')) {
+    const name = getChildOfType(assignment, 'simple_identifier');
+    const valueNode = getChildOfType(assignment, 'constant_param_expression');
+    if (!name || !valueNode) {
+      continue;
+    }
+    const value = evaluateConstant(getNodeText(valueNode), params);
+    if (value !== null) {
+      params.set(getNodeText(name).trim(), value);
+    }
+  }
+
+  return params;
+}
+
+/**
+ * Evaluate a constant expression.
+ *
+ * Patterns we handle:
+ * - 2'b01, 4'hA, 'd3, 7               (literals)
+ * - W, my_pkg::W                     (parameters)
+ * - W'(0), 2'(x), state_t'(x)        (sized and type casts)
+ * - W - 1, 1 << W, (N + 1) / 2, ~x   (arithmetic, shift, bitwise, logical)
+ * - a > b ? a : b                    (conditional)
+ * - $clog2(DEPTH)
+ * - '0, '1, '{default: 1'b1}         (fill to the context width)
+ *
+ * @param params - Parameter values (see buildParameterTable)
+ * @param width - Width of the context (e.g. the enum base type), used to
+ *                truncate the result and to fill '1
+ * @returns The value, or null if the expression isn't constant
+ */
+export function evaluateConstant(expr: string, params: Map<string, number> = new Map(), width?: number): number | null {
+  const tokens = tokenize(expr);
+  if (!tokens) {
+    return null;
+  }
+
+  let pos = 0;
+  const peekOp = (): string | undefined => {
+    const token = tokens[pos];
+    return token?.kind === 'op' ? token.text : undefined;
+  };
+  const expect = (op: string): boolean => {
+    if (peekOp() !== op) {
+      return false;
+    }
+    pos++;
+    return true;
+  };
+
+  const parseExpression = (): number | null => {
+    const condition = parseBinary(0);
+    if (condition === null || !expect('?')) {
+      return condition;
+    }
+    const whenTrue = parseExpression();
+    if (whenTrue === null || !expect(':')) {
+      return null;
+    }
+    const whenFalse = parseExpression();
+    return whenFalse === null ? null : condition !== 0 ? whenTrue : whenFalse;
+  };
+
+  const parseBinary = (minPrecedence: number): number | null => {
+    let left = parseUnary();
+    for (;;) {
+      const op = peekOp();
+      const precedence = op ? BINARY_PRECEDENCE[op] : undefined;
+      if (left === null || precedence === undefined || precedence <= minPrecedence) {
+        return left;
+      }
+      pos++;
+      // ** is right-associative
+      const right = parseBinary(op === '**' ? precedence - 1 : precedence);
+      if (right === null) {
+        return null;
+      }
+      left = applyBinary(op!, left, right);
+    }
+  };
+
+  const parseUnary = (): number | null => {
+    const op = peekOp();
+    if (op === '+' || op === '-' || op === '!' || op === '~') {
+      pos++;
+      const operand = parseUnary();
+      if (operand === null) {
+        return null;
+      }
+      if (op === '-') return -operand;
+      if (op === '!') return operand === 0 ? 1 : 0;
+      if (op === '~') return width !== undefined ? truncate(-operand - 1, width) : -operand - 1;
+      return operand;
+    }
+    return parsePostfix();
+  };
+
+  // W'(x): the primary before '( is a width or a type
+  const parsePostfix = (): number | null => {
+    const start = tokens[pos];
+    let value = parsePrimary();
+    while (peekOp() === "'(") {
+      pos++;
+      const inner = parseExpression();
+      if (inner === null || !expect(')')) {
+        return null;
+      }
+      if (start?.kind === 'name' && value === null) {
+        value = inner; // state_t'(x), signed'(x)
+      } else {
+        value = value === null ? null : truncate(inner, value);
+      }
+    }
+    return value;
+  };
+
+  const parsePrimary = (): number | null => {
+    const token = tokens[pos++];
+    if (!token) {
+      return null;
+    }
+
+    switch (token.kind) {
+      case 'number':
+        return token.width !== undefined ? truncate(token.value, token.width) : token.value;
+      case 'fill':
+        return fill(token.bit, width);
+      case 'name': {
+        if (token.text === '$clog2') {
+          if (!expect('(')) {
+            return null;
+          }
+          const argument = parseExpression();
+          return argument !== null && expect(')') ? clog2(argument) : null;
+        }
+        const name = token.text.replace(/^.*::/, '');
+        return params.get(name) ?? null;
+      }
+      case 'op':
+        break;
+    }
+
+    if (token.text === '(') {
+      const inner = parseExpression();
+      return inner !== null && expect(')') ? inner : null;
+    }
+    if (token.text === "'{") {
+      // '{default: v}: every bit (or element) takes v
+      const keyword = tokens[pos];
+      if (keyword?.kind !== 'name' || keyword.text !== 'default') {
+        return null;
+      }
+      pos++;
+      if (!expect(':')) {
+        return null;
+      }
+      const inner = parseExpression();
+      if (inner === null || !expect('}')) {
+        return null;
+      }
+      return inner === 0 || inner === 1 ? fill(inner, width) : null;
+    }
+    return null;
+  };
+
+  const result = parseExpression();
+  if (result === null || pos !== tokens.length || !Number.isSafeInteger(result)) {
+    return null;
+  }
+  return width !== undefined ? truncate(result, width) : result;
+}
+
+/**
+ * Split an expression into tokens.
+ *
+ * @returns The tokens, or null if the text holds something that isn't
+ *          part of a constant expression (x/z digits, strings, ...)
+ */
+function tokenize(expr: string): Token[] | null {
+  const tokens: Token[] = [];
+  let rest = expr.trim();
+
+  while (rest.length > 0) {
+    const based = rest.match(/^(\d[\d_]*)?\s*'\s*[sS]?([bBoOdDhH])\s*([0-9a-fA-F_xXzZ?]+)/);
+    const plain = rest.match(/^\d[\d_]*/);
+    const fillBit = rest.match(/^'([01])(?!\w)/);
+    const name = rest.match(/^\$?[a-zA-Z_][\w$]*(?:\s*::\s*[a-zA-Z_][\w$]*)*/);
+
+    if (based) {
+      const radix = { b: 2, o: 8, d: 10, h: 16 }[based[2].toLowerCase() as 'b' | 'o' | 'd' | 'h'];
+      const digits = based[3].replace(/_/g, '');
+      if (/[xXzZ?]/.test(digits)) {
+        return null;
+      }
+      const value = parseInt(digits, radix);
+      if (Number.isNaN(value)) {
+        return null;
+      }
+      tokens.push({ kind: 'number', value, width: based[1] ? parseInt(based[1].replace(/_/g, ''), 10) : undefined });
+      rest = rest.slice(based[0].length);
+    } else if (plain) {
+      tokens.push({ kind: 'number', value: parseInt(plain[0].replace(/_/g, ''), 10) });
+      rest = rest.slice(plain[0].length);
+    } else if (fillBit) {
+      tokens.push({ kind: 'fill', bit: fillBit[1] === '1' ? 1 : 0 });
+      rest = rest.slice(fillBit[0].length);
+    } else if (name) {
+      tokens.push({ kind: 'name', text: name[0].replace(/\s+/g, '') });
+      rest = rest.slice(name[0].length);
+    } else {
+      const op = OPERATORS.find((candidate) => rest.startsWith(candidate));
+      if (!op) {
+        return null;
+      }
+      tokens.push({ kind: 'op', text: op });
+      rest = rest.slice(op.length);
+    }
+    rest = rest.trimStart();
+  }
+
+  return tokens;
+}
+
+/**
+ * Apply a binary operator to two integers.
+ */
+function applyBinary(op: string, a: number, b: number): number | null {
+  switch (op) {
+    case '**': return a ** b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : Math.trunc(a / b);
+    case '%': return b === 0 ? null : a % b;
+    case '+': return a + b;
+    case '-': return a - b;
+    case '<<': case '<<<': return a * 2 ** b;
+    case '>>': case '>>>': return Math.floor(a / 2 ** b);
+    case '<': return Number(a < b);
+    case '<=': return Number(a <= b);
+    case '>': return Number(a > b);
+    case '>=': return Number(a >= b);
+    case '==': case '===': return Number(a === b);
+    case '!=': case '!==': return Number(a !== b);
+    case '&': return Number(BigInt(a) & BigInt(b));
+    case '^': return Number(BigInt(a) ^ BigInt(b));
+    case '~^': case '^~': return Number(~(BigInt(a) ^ BigInt(b)));
+    case '|': return Number(BigInt(a) | BigInt(b));
+    case '&&': return Number(a !== 0 && b !== 0);
+    case '||': return Number(a !== 0 || b !== 0);
+  }
+  return null;
+}
+
+/**
+ * Keep the low bits of a value, as a sized cast or sized literal does.
+ */
+function truncate(value: number, width: number): number {
+  if (width <= 0 || width > 52) {
+    return value;
+  }
+  const size = 2 ** width;
+  return ((value % size) + size) % size;
+}
+
+/**
+ * Value of '0 / '1 in a context of the given width.
+ */
+function fill(bit: 0 | 1, width: number | undefined): number | null {
+  if (bit === 0) {
+    return 0;
+  }
+  return width !== undefined && width <= 52 ? 2 ** width - 1 : null;
+}
+
+/**
+ * Ceiling of log2, as $clog2 computes it ($clog2(1) is 0).
+ */
+function clog2(value: number): number {
+  let bits = 0;
+  while (2 ** bits < value) {
+    bits++;
+  }
+  return bits;
+}
@@ -7,8 +7,18 @@ import {
   getChildOfType,
   getChildrenOfType,
 } from '../parser/ast-walker.js';
+import { buildParameterTable, evaluateConstant } from './const-eval.js';
 import type { EnumDefinition } from '../types.js';
 
+// Width of the integer atom types an enum can be based on
+const ATOM_TYPE_WIDTHS: Record<string, number> = {
+  byte: 8,
+  shortint: 16,
+  int: 32,
+  integer: 32,
+  longint: 64,
+};
+
 /**
  * Detect typedef enum state definitions in the AST.
  *
@@ -17,16 +27,20 @@ import type { EnumDefinition } from '../types.js';
  * - typedef enum logic [1:0] { IDLE=2'b00, RUN=2'b01 } state_t;
  * - typedef enum { IDLE, RUN, DONE } state_t;
  * - enum { IDLE, RUN, DONE } state; (direct, no typedef)
+ * - typedef enum logic [W-1:0] { IDLE = W'(0), ... } state_t;
+ *                                    (parameterized, see resolveEnumValues)
  */
 export function detectEnumDefinitions(root: SyntaxNode): EnumDefinition[] {
   const results: EnumDefinition[] = [];
+  let params: Map<string, number> | undefined;
 
   // Look for type declarations (typedef)
   const typeDecls = findNodesOfType(root, 'type_declaration');
   for (const typeDecl of typeDecls) {
     const enumDef = extractTypedefEnum(typeDecl);
     if (enumDef) {
-      results.push(enumDef);
+      params ??= buildParameterTable(root);
+      results.push(resolveEnumValues(enumDef, getNodeText(typeDecl), params));
     }
   }
 
@@ -36,13 +50,67 @@ export function detectEnumDefinitions(root: SyntaxNode): EnumDefinition[] {
   for (const dataDecl of dataDecls) {
     const enumDef = extractDirectEnum(dataDecl);
     if (enumDef) {
-      results.push(enumDef);
+      params ??= buildParameterTable(root);
+      results.push(resolveEnumValues(enumDef, getNodeText(dataDecl), params));
     }
   }
 
   return results;
 }
 
+/**
+ * Compute the base type width and the value of every member of an enum.
+ *
+ * Patterns we handle:
+ * - enum logic [W-1:0] { ... }        (width from parameters)
+ * - enum bit { ... }, enum { ... }    (1 bit, int)
+ * - IDLE = W'(0), RUN = S_BASE + 1    (constant expressions)
+ * - IDLE, RUN = 4, DONE               (previous value + 1, starting at 0)
+ *
+ * Members after one that can't be evaluated get no value.
+ */
+function resolveEnumValues(
+  enumDef: EnumDefinition,
+  declText: string,
+  params: Map<string, number>
+): EnumDefinition {
+  const width = getEnumWidth(declText, params);
+  let next: number | null = 0;
+
+  const states = enumDef.states.map((state) => {
+    const value = state.encoding !== undefined ? evaluateConstant(state.encoding, params, width) : next;
+    next = value === null ? null : value + 1;
+    return value === null ? state : { ...state, value };
+  });
+
+  return width !== undefined ? { ...enumDef, states, width } : { ...enumDef, states };
+}
+
+/**
+ * Get the bit width of an enum's base type, or undefined when it is not
+ * known (typedef enum my_base_t { ... }).
+ */
+function getEnumWidth(declText: string, params: Map<string, number>): number | undefined {
+  const base = declText.match(/\benum\s*(\w+)?\s*(?:signed|unsigned)?\s*(?:\[\s*([^\]:]+?)\s*:\s*([^\]]+?)\s*\])?\s*\{/);
+  if (!base) {
+    return undefined;
+  }
+
+  const [, type, msb, lsb] = base;
+  if (msb !== undefined) {
+    const high = evaluateConstant(msb, params);
+    const low = evaluateConstant(lsb, params);
+    return high !== null && low !== null ? Math.abs(high - low) + 1 : undefined;
+  }
+  if (type === undefined) {
+    return 32; // enum { ... } is an int
+  }
+  if (type in ATOM_TYPE_WIDTHS) {
+    return ATOM_TYPE_WIDTHS[type];
+  }
+  return ['logic', 'bit', 'reg'].includes(type) ? 1 : undefined;
+}
+
 /**
  * Extract enum definition from a typedef declaration.
  */
@@ -270,16 +338,17 @@ export function looksLikeFSMEnum(enumDef: EnumDefinition): boolean {
 export function detectEncodingType(
   enumDef: EnumDefinition
 ): 'binary' | 'onehot' | 'gray' | 'unknown' {
-  const encodings = enumDef.states
-    .map((s) => s.encoding)
-    .filter((e): e is string => !!e);
+  const encoded = enumDef.states.filter((s) => !!s.encoding);
 
-  if (encodings.length === 0) {
+  if (encoded.length === 0) {
     return 'unknown'; // No explicit encoding
   }
 
-  // Parse encodings to numbers
-  const values = encodings.map((e) => parseVerilogNumber(e)).filter((v) => v !== null) as number[];
+  // Parse encodings to numbers, preferring the evaluated value
+  const values = encoded
+    .map((s) => s.value ?? parseVerilogNumber(s.encoding!))
+    .filter((v) => v !== null) as number[];
+  const encodings = encoded.map((s) => s.encoding);
 
   if (values.length !== encodings.length) {
     return 'unknown'; // Couldn't parse all encodings
@@ -311,7 +380,7 @@ export function detectEncodingType(
 /**
  * Parse Verilog number format to integer.
  */
-function parseVerilogNumber(str: string): number | null {
+export function parseVerilogNumber(str: string): number | null {
   // Remove whitespace
   const s = str.trim();
 
@@ -0,0 +1,318 @@
+import type { SyntaxNode } from '../parser/ast-walker.js';
+import { findNodesOfType, getChildOfType, getNodeText, getNodeLine, unwrapParentheses } from '../parser/ast-walker.js';
+import { buildStatement, collectAssignments, joinGuards } from '../parser/statement-ir.js';
+import type { AssignStatement } from '../parser/statement-ir.js';
+import { isOneBit } from './case-labels.js';
+import { analyzeAlwaysBlock, isClockedBlock } from './always-analyzer.js';
+import { isResetGuard, simplifyCondition } from './transition-builder.js';
+import type { FSM, FSMTransition } from '../types.js';
+
+/**
+ * Next-value equation of one flop in a clocked block.
+ */
+interface FlopEquation {
+  assign: AssignStatement;
+  guards: string[];             // Non-reset conditions around the assignment
+  terms: SyntaxNode[][];        // Sum of products: factors of each term
+  sourceBlock: 'always_ff' | 'always';
+  blockNode: SyntaxNode;
+}
+
+const OR_OPERATORS = new Set(['|', '||']);
+const AND_OPERATORS = new Set(['&', '&&']);
+
+/**
+ * Detect one-hot FSMs written with one flop per state (Verilog-2001 style).
+ *
+ * Patterns we handle:
+ * - reg s_idle, s_run, s_done;
+ *   always @(posedge clk)
+ *     if (rst) begin s_idle <= 1'b1; s_run <= 1'b0; s_done <= 1'b0; end
+ *     else begin
+ *       s_idle <= s_idle & ~go | s_done;
+ *       s_run  <= s_idle & go | s_run & ~done;
+ *       s_done <= s_run & done;
+ *     end
+ * - (s_idle && go) || (s_run && !done)   (logical operators, parentheses)
+ *
+ * A one-bit flop is a state when every product term of its next-value
+ * equation holds exactly one state flop (the source state) and some term
+ * reads it; flops are dropped until the set is stable. Reset may set at
+ * most one of them. Each product term becomes a transition from its source
+ * state, guarded by the term's other factors.
+ *
+ * @param excluded - Variables already used as state registers
+ */
+export function detectFlopStateFSMs(root: SyntaxNode, excluded: Set<string>): FSM[] {
+  const declarations = findOneBitRegisters(root);
+  for (const name of excluded) {
+    declarations.delete(name);
+  }
+
+  const equations = new Map<string, FlopEquation>();
+  const resetValues = new Map<string, string>();
+  const conflicting = new Set<string>();
+
+  for (const alwaysNode of findNodesOfType(root, 'always_construct')) {
+    const block = analyzeAlwaysBlock(alwaysNode);
+    if (!isClockedBlock(block)) {
+      continue;
+    }
+
+    for (const { assign, guards } of collectAssignments(buildStatement(alwaysNode))) {
+      if (assign.isBlocking || !declarations.has(assign.target)) {
+        continue;
+      }
+      // if (rst) s_idle <= 1'b1; else s_idle <= ...: the else branch is
+      // guarded by !rst too, but assigns an equation, not a constant
+      if (guards.some(isResetGuard) && /^(?:\d*'[bBhHdD])?[01]$/.test(assign.value.replace(/\s+/g, ''))) {
+        resetValues.set(assign.target, assign.value);
+      } else if (equations.has(assign.target) || !assign.valueNode) {
+        conflicting.add(assign.target); // Written twice: not a plain equation
+      } else {
+        equations.set(assign.target, {
+          assign,
+          guards: guards.filter((guard) => !isResetGuard(guard)),
+          terms: flatten(assign.valueNode, OR_OPERATORS).map((term) => flatten(term, AND_OPERATORS)),
+          sourceBlock: block.type === 'always_ff' ? 'always_ff' : 'always',
+          blockNode: alwaysNode,
+        });
+      }
+    }
+  }
+
+  // Drop flops until every remaining equation is a sum of state terms
+  let states = new Set(Array.from(equations.keys()).filter((name) => !conflicting.has(name)));
+  for (let changed = true; changed; ) {
+    const read = new Set<string>();
+    for (const name of states) {
+      for (const factors of equations.get(name)!.terms) {
+        const source = getTermSource(factors, states);
+        if (source) {
+          read.add(source);
+        }
+      }
+    }
+    const next = new Set(
+      Array.from(states).filter(
+        (name) => read.has(name) && equations.get(name)!.terms.every((factors) => getTermSource(factors, states))
+      )
+    );
+    changed = next.size !== states.size;
+    states = next;
+  }
+
+  return groupConnectedStates(states, equations)
+    .map((group) => buildFlopFSM(group, equations, resetValues, declarations))
+    .filter((fsm): fsm is FSM => fsm !== null);
+}
+
+/**
+ * Find one-bit reg/logic/bit variables and their declaration lines, in
+ * declaration order.
+ */
+function findOneBitRegisters(root: SyntaxNode): Map<string, number> {
+  const registers = new Map<string, number>();
+
+  for (const type of ['data_declaration', 'net_declaration']) {
+    for (const decl of findNodesOfType(root, type)) {
+      if (!/^\s*(?:reg|logic|bit)\b/.test(getNodeText(decl)) || findNodesOfType(decl, 'packed_dimension').length > 0) {
+        continue;
+      }
+      for (const assignment of [
+        ...findNodesOfType(decl, 'variable_decl_assignment'),
+        ...findNodesOfType(decl, 'net_decl_assignment'),
+      ]) {
+        const name = getChildOfType(assignment, 'simple_identifier');
+        if (name && !getChildOfType(assignment, 'unpacked_dimension')) {
+          registers.set(getNodeText(name).trim(), getNodeLine(decl));
+        }
+      }
+    }
+  }
+
+  return registers;
+}
+
+/**
+ * Flatten an expression over a set of binary operators, looking through
+ * parentheses: a & b & (c) gives [a, b, c].
+ */
+function flatten(node: SyntaxNode, operators: Set<string>): SyntaxNode[] {
+  const inner = unwrapParentheses(node);
+  const children = inner.children;
+  if (
+    inner.type === 'expression' &&
+    children.length === 3 &&
+    children[0].type === 'expression' &&
+    operators.has(children[1].type) &&
+    children[2].type === 'expression'
+  ) {
+    return [...flatten(children[0], operators), ...flatten(children[2], operators)];
+  }
+  return [inner];
+}
+
+/**
+ * Get the state a product term starts from.
+ *
+ * @returns The one factor naming a state, or null if the term names none,
+ *          several, or reads states elsewhere (except ~s_x, which one-hot
+ *          exclusivity already implies)
+ */
+function getTermSource(factors: SyntaxNode[], states: Set<string>): string | null {
+  let source: string | null = null;
+
+  for (const factor of factors) {
+    const text = getNodeText(factor).trim();
+    if (states.has(text)) {
+      if (source) {
+        return null;
+      }
+      source = text;
+    } else if (!isNegatedState(text, states) && readsState(text, states)) {
+      return null;
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Check for ~s_x / !s_x.
+ */
+function isNegatedState(text: string, states: Set<string>): boolean {
+  const match = text.match(/^[~!]\s*(\w+)$/);
+  return match !== null && states.has(match[1]);
+}
+
+/**
+ * Check if an expression reads any state flop.
+ */
+function readsState(text: string, states: Set<string>): boolean {
+  return (text.match(/\b[a-zA-Z_]\w*\b/g) || []).some((name) => states.has(name));
+}
+
+/**
+ * Split state flops into machines: flops linked by a transition belong
+ * to the same machine.
+ */
+function groupConnectedStates(states: Set<string>, equations: Map<string, FlopEquation>): string[][] {
+  const groupOf = new Map<string, Set<string>>();
+  for (const name of states) {
+    groupOf.set(name, new Set([name]));
+  }
+
+  for (const target of states) {
+    for (const factors of equations.get(target)!.terms) {
+      const source = getTermSource(factors, states)!;
+      const [a, b] = [groupOf.get(source)!, groupOf.get(target)!];
+      if (a !== b) {
+        for (const name of b) {
+          a.add(name);
+          groupOf.set(name, a);
+        }
+      }
+    }
+  }
+
+  return Array.from(new Set(groupOf.values()))
+    .map((group) => Array.from(group))
+    .filter((group) => group.length >= 2);
+}
+
+/**
+ * Build the FSM of one group of state flops.
+ */
+function buildFlopFSM(
+  group: string[],
+  equations: Map<string, FlopEquation>,
+  resetValues: Map<string, string>,
+  declarations: Map<string, number>
+): FSM | null {
+  const order = Array.from(declarations.keys());
+  const names = group.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  const stateSet = new Set(names);
+
+  // Exactly one flop may come out of reset set
+  const resetStates = names.filter((name) => resetValues.has(name) && isOneBit(resetValues.get(name)!));
+  if (resetStates.length > 1) {
+    return null;
+  }
+
+  const transitions: FSMTransition[] = [];
+  const inputSignals = new Set<string>();
+
+  for (const target of names) {
+    const equation = equations.get(target)!;
+    for (const factors of equation.terms) {
+      const source = getTermSource(factors, stateSet)!;
+      const conditions = [
+        ...equation.guards,
+        ...factors
+          .map((factor) => getNodeText(factor).trim())
+          .filter((text) => text !== source && !isNegatedState(text, stateSet)),
+      ];
+      for (const name of conditions.join(' ').match(/\b[a-zA-Z_]\w*\b/g) || []) {
+        inputSignals.add(name);
+      }
+
+      const rawCondition = conditions.length > 0 ? joinGuards(conditions) : undefined;
+      transitions.push({
+        from: source,
+        to: target,
+        condition: rawCondition ? simplifyCondition(rawCondition) : undefined,
+        rawCondition,
+        line: equation.assign.line,
+        isSelfLoop: source === target,
+        sourceBlock: equation.sourceBlock,
+        outputs: [],
+      });
+    }
+  }
+
+  // Group the transitions by source state, like a state case
+  transitions.sort((a, b) => names.indexOf(a.from) - names.indexOf(b.from));
+
+  const blockNodes = new Map(names.map((name) => [equations.get(name)!.blockNode.id, equations.get(name)!.blockNode]));
+  const stateVarName = `{${names.join(', ')}}`;
+
+  return {
+    name: getGroupName(names),
+    states: names.map((name) => ({ name, line: declarations.get(name)!, outputs: [] })),
+    transitions,
+    resetState: resetStates[0],
+    encoding: 'onehot',
+    stateVarName,
+    blockStyle: 'one-block',
+    confidence: resetStates.length === 1 ? 0.8 : 0.6,
+    confidenceBreakdown: {
+      stateDetection: 0.7,
+      transitionExtraction: 0.9,
+      resetDetection: resetStates.length === 1 ? 0.9 : 0.3,
+      outputExtraction: 0.5,
+    },
+    warnings: [],
+    errors: [],
+    inputSignals: Array.from(inputSignals),
+    outputSignals: [],
+    regions: Array.from(blockNodes.values()).map((node) => ({
+      line: getNodeLine(node),
+      endLine: node.endPosition.row + 1,
+    })),
+  };
+}
+
+/**
+ * Name a flop group after the prefix its flops share (st_idle, st_run: "st").
+ */
+function getGroupName(names: string[]): string {
+  let prefix = names[0];
+  for (const name of names) {
+    while (!name.startsWith(prefix)) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  prefix = prefix.replace(/_+$/, '');
+  return prefix.length >= 2 ? prefix : 'state_flops';
+}
@@ -0,0 +1,251 @@
+import type { SyntaxNode } from '../parser/ast-walker.js';
+import { findNodesOfType } from '../parser/ast-walker.js';
+import { buildStatement, joinGuards } from '../parser/statement-ir.js';
+import type { Statement, IfStatement, CaseStatement, CaseBranch } from '../parser/statement-ir.js';
+import { getSubroutineBinding, inlineStatement } from './subroutine-inliner.js';
+
+/**
+ * Find if/else-if chains that dispatch on a state variable.
+ *
+ * Patterns we handle:
+ * - if (state == IDLE) ... else if (state == RUN) ... else ...
+ * - if (IDLE == state) / (state === IDLE) / (state inside {A, B})
+ * - if (state == IDLE && go) ...   (extra terms become a guard)
+ * - if (state_q[i] == IDLE) ...    (element of a state register array)
+ * - if (!rst_n) state <= IDLE; else if (state == IDLE) ...
+ *   (leading branches that do not test the state are skipped)
+ *
+ * A chain needs at least two state comparisons; nested chains inside an
+ * accepted chain are not reported again.
+ */
+export function findStateIfChains(alwaysNode: SyntaxNode, stateVarNames: Set<string>): SyntaxNode[] {
+  const chains: SyntaxNode[] = [];
+
+  for (const node of findNodesOfType(alwaysNode, 'conditional_statement')) {
+    if (chains.some((chain) => isDescendant(node, chain))) {
+      continue;
+    }
+    const dispatch = buildIfChainDispatch(buildStatement(node), stateVarNames);
+    if (dispatch && dispatch.items.filter((item) => !item.isDefault).length >= 2) {
+      chains.push(node);
+    }
+  }
+
+  return chains;
+}
+
+/**
+ * Build the case statement equivalent of a state dispatch node.
+ *
+ * case_statement nodes are built as-is; an if/else-if chain becomes a case
+ * on the state variable with one item per compared state set, so the
+ * transition and output extraction treat both forms the same way. Nodes
+ * inside a function or task are inlined at their call site first.
+ */
+export function buildStateDispatch(node: SyntaxNode, stateVarNames: Set<string>): CaseStatement | null {
+  if (node.type !== 'case_statement' && node.type !== 'conditional_statement') {
+    return null;
+  }
+
+  const binding = getSubroutineBinding(node, stateVarNames);
+  const stmt = binding ? inlineStatement(buildStatement(node), binding) : buildStatement(node);
+
+  if (stmt.kind === 'case') {
+    return stmt;
+  }
+  return buildIfChainDispatch(stmt, stateVarNames);
+}
+
+/**
+ * Convert an if/else-if chain into a case statement on the state variable.
+ *
+ * Repeated comparisons of the same states (if (state == IDLE && go) ...
+ * else if (state == IDLE) ...) are merged into one item whose body is an
+ * if/else chain on the extra terms.
+ */
+function buildIfChainDispatch(stmt: Statement, stateVarNames: Set<string>): CaseStatement | null {
+  let current: Statement | undefined = stmt;
+  let stateVar: string | null = null;
+
+  // Skip leading branches that don't test the state (e.g. reset)
+  while (current && current.kind === 'if' && !parseStateCondition(current.condition, stateVarNames)) {
+    current = current.else;
+  }
+
+  const items: CaseBranch[] = [];
+  const tails = new Map<CaseBranch, IfStatement | null>(); // Open guard chain per item
+
+  while (current && current.kind === 'if') {
+    const parsed = parseStateCondition(current.condition, stateVarNames);
+    if (!parsed || (stateVar && parsed.varName !== stateVar)) {
+      break;
+    }
+    stateVar = parsed.varName;
+
+    const key = parsed.labels.join(',');
+    let item = items.find((i) => i.labels.join(',') === key);
+    const body: Statement = parsed.guard
+      ? { kind: 'if', condition: parsed.guard, then: current.then, line: current.line, node: current.node }
+      : current.then;
+
+    if (!item) {
+      item = { labels: parsed.labels, isDefault: false, body, line: current.line, node: current.node };
+      items.push(item);
+      tails.set(item, body.kind === 'if' && parsed.guard ? (body as IfStatement) : null);
+    } else {
+      const tail = tails.get(item);
+      if (tail) {
+        // Earlier comparisons of these states were guarded; chain on
+        tail.else = body;
+        tails.set(item, body.kind === 'if' && parsed.guard ? (body as IfStatement) : null);
+      }
+      // Otherwise an unguarded comparison already took these states
+    }
+
+    current = current.else;
+  }
+
+  if (!stateVar || items.length === 0) {
+    return null;
+  }
+
+  if (current) {
+    items.push({ labels: [], isDefault: true, body: current, line: current.line, node: current.node });
+  }
+
+  return {
+    kind: 'case',
+    keyword: 'case',
+    isInside: false,
+    expression: stateVar,
+    items,
+    line: items[0].line,
+    node: stmt.node,
+  };
+}
+
+/**
+ * Split a condition into the states it compares the state variable with
+ * and the remaining guard.
+ *
+ * Patterns we handle:
+ * - state == IDLE, IDLE == state, state === IDLE
+ * - state == IDLE || state == WAIT, state inside {IDLE, WAIT}
+ * - (state == IDLE) && go           (guard "go")
+ */
+function parseStateCondition(
+  condition: string,
+  stateVarNames: Set<string>
+): { varName: string; labels: string[]; guard?: string } | null {
+  const terms = splitTopLevel(stripParens(condition), '&&');
+
+  for (let i = 0; i < terms.length; i++) {
+    const comparison = parseStateComparison(terms[i], stateVarNames);
+    if (comparison) {
+      const rest = terms.filter((_, j) => j !== i);
+      return { ...comparison, guard: rest.length > 0 ? joinGuards(rest) : undefined };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse one comparison term (or an || of comparisons on the same variable).
+ */
+function parseStateComparison(
+  term: string,
+  stateVarNames: Set<string>
+): { varName: string; labels: string[] } | null {
+  const text = stripParens(term);
+
+  const inside = text.match(/^(\w+)(?:\[[^\]]*\])?\s+inside\s*\{([^}]*)\}$/);
+  if (inside && stateVarNames.has(inside[1])) {
+    return { varName: inside[1], labels: inside[2].split(',').map((l) => l.trim()).filter(Boolean) };
+  }
+
+  const alternatives = splitTopLevel(text, '||');
+  if (alternatives.length > 1) {
+    const parts = alternatives.map((alt) => parseStateComparison(alt, stateVarNames));
+    if (parts.every((p) => p && p.varName === parts[0]!.varName)) {
+      return { varName: parts[0]!.varName, labels: parts.flatMap((p) => p!.labels) };
+    }
+    return null;
+  }
+
+  // state_q[i] == IDLE compares one element of a state array
+  const match = text.match(/^([\w:]+(?:\[[^\]]*\])?)\s*===?\s*([\w:']+(?:\[[^\]]*\])?)$/);
+  if (!match) {
+    return null;
+  }
+  const [left, right] = [match[1].replace(/\[.*\]$/, ''), match[2].replace(/\[.*\]$/, '')];
+  if (stateVarNames.has(left)) {
+    return { varName: left, labels: [match[2]] };
+  }
+  if (stateVarNames.has(right)) {
+    return { varName: right, labels: [match[1]] };
+  }
+  return null;
+}
+
+/**
+ * Split text on a top-level binary operator (outside (), {} and []).
+ */
+function splitTopLevel(text: string, operator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '(' || ch === '{' || ch === '[') depth++;
+    if (ch === ')' || ch === '}' || ch === ']') depth--;
+    if (depth === 0 && text.startsWith(operator, i)) {
+      parts.push(text.slice(start, i).trim());
+      start = i + operator.length;
+      i += operator.length - 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+
+  return parts;
+}
+
+/**
+ * Remove parentheses wrapping a whole expression.
+ */
+function stripParens(text: string): string {
+  let result = text.trim();
+  // "(a) && (b)" starts and ends with parens but isn't wrapped
+  while (result.startsWith('(') && result.endsWith(')') && isBalanced(result.slice(1, -1))) {
+    result = result.slice(1, -1).trim();
+  }
+  return result;
+}
+
+/**
+ * Check that parentheses never close more than they opened.
+ */
+function isBalanced(text: string): boolean {
+  let depth = 0;
+  for (const ch of text) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (depth < 0) {
+      return false;
+    }
+  }
+  return depth === 0;
+}
+
+/**
+ * Check if a node lies inside another.
+ */
+function isDescendant(node: SyntaxNode, ancestor: SyntaxNode): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.id === ancestor.id) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -4,21 +4,43 @@ import {
   getNodeText,
   getNodeLine,
 } from '../parser/ast-walker.js';
-import type { EnumDefinition, StateRegister, AlwaysBlock, FSM } from '../types.js';
+import { stripPackageScope } from '../parser/queries.js';
+import type { EnumDefinition, StateRegister, AlwaysBlock, FSM, FSMState, SourceLocation, UnusedEncodings } from '../types.js';
 import { detectEnumDefinitions, looksLikeFSMEnum, detectEncodingType } from './enum-detector.js';
+import { detectParameterStates, matchParameterStates } from './param-detector.js';
 import { detectStateRegisters, matchStateRegisterPairs, findStateRegistersForEnum } from './register-detector.js';
-import { analyzeAlwaysBlocks, findStateCaseStatements, detectBlockStyle, getTransitionBlock } from './always-analyzer.js';
+import { analyzeAlwaysBlocks, findStateCaseStatements, detectBlockStyle, getTransitionBlock, isClockedBlock } from './always-analyzer.js';
 import { extractTransitions, extractResetState } from './transition-builder.js';
-import { extractOutputsFromCaseStatement, attachOutputsToTransitions } from './output-extractor.js';
+import { extractOutputsFromCaseStatement, attachOutputsToTransitions, extractDefaultOutputs, applyDefaultOutputs } from './output-extractor.js';
+import { getStateEncodings } from './case-labels.js';
+import { detectOneHotStates } from './onehot-detector.js';
+import { buildStateDispatch } from './if-chain-detector.js';
+import { detectReplication } from './replication-detector.js';
+import { detectFlopStateFSMs } from './flop-state-detector.js';
+import { extractDecodedOutputs, extractRegisteredOutputs } from './state-decoder.js';
+import { assignStableIds, assignTransitionIds } from './stable-ids.js';
+
+// Widest state type whose unused codes are reported
+const MAX_ENCODING_WIDTH = 16;
+// Most unused codes listed per FSM
+const MAX_LISTED_ENCODINGS = 64;
 
 /**
  * Detect and extract multiple FSMs from a module.
+ *
+ * @param root - Root node to search
+ * @param importedEnums - Enums resolved from packages in other files
  */
-export function detectMultipleFSMs(root: SyntaxNode): FSM[] {
+export function detectMultipleFSMs(root: SyntaxNode, importedEnums: EnumDefinition[] = []): FSM[] {
   const fsms: FSM[] = [];
 
-  // Step 1: Find all enum definitions
+  // Step 1: Find all enum definitions (local first, then imported)
   const enumDefs = detectEnumDefinitions(root);
+  for (const imported of importedEnums) {
+    if (!enumDefs.some((e) => e.typeName === imported.typeName)) {
+      enumDefs.push(imported);
+    }
+  }
 
   // Step 2: Filter to likely FSM enums
   const fsmEnums = enumDefs.filter(looksLikeFSMEnum);
@@ -47,14 +69,24 @@ export function detectMultipleFSMs(root: SyntaxNode): FSM[] {
 
   // If no typed FSMs found, try to detect untyped FSMs
   if (fsms.length === 0 && registerPairs.length > 0) {
+    const paramSets = detectParameterStates(root);
     for (const pair of registerPairs) {
-      const fsm = buildFSMFromRegisters(pair, alwaysBlocks, root);
+      const fsm =
+        buildFSMFromParameters(pair, paramSets, alwaysBlocks, root) ||
+        buildFSMFromRegisters(pair, alwaysBlocks, root);
       if (fsm) {
         fsms.push(fsm);
       }
     }
   }
 
+  // One-hot machines with one flop per state and no state vector
+  fsms.push(...detectFlopStateFSMs(root, new Set(allRegisters.map((r) => r.varName))));
+
+  for (const fsm of fsms) {
+    assignStableIds(fsm);
+  }
+
   return fsms;
 }
 
@@ -73,12 +105,64 @@ function buildFSMFromEnum(
     return null;
   }
 
+  return buildFSMFromStateSet(enumDef, pair, alwaysBlocks, root);
+}
+
+/**
+ * Build an FSM from localparam/parameter state encodings.
+ *
+ * The register is untyped (e.g. reg [1:0] state), so the parameter set is
+ * chosen by matching its names against the labels of the state case. A
+ * reverse case (case (1'b1) state[IDLE_B]:) instead takes its states from
+ * the bit positions it tests.
+ */
+function buildFSMFromParameters(
+  pair: { state: StateRegister; nextState?: StateRegister },
+  paramSets: EnumDefinition[],
+  alwaysBlocks: AlwaysBlock[],
+  root: SyntaxNode
+): FSM | null {
   const stateVarName = pair.state.varName;
   const nextStateVarName = pair.nextState?.varName || stateVarName;
-  const stateNames = new Set(enumDef.states.map((s) => s.name));
 
-  // Detect block style
-  const blockStyle = detectBlockStyle(alwaysBlocks, stateVarName, nextStateVarName);
+  const transitionBlock = getTransitionBlock(alwaysBlocks, stateVarName, nextStateVarName);
+  if (!transitionBlock) {
+    return null;
+  }
+
+  const transitionBlockNode = findAlwaysBlockNode(root, transitionBlock.line);
+  if (!transitionBlockNode) {
+    return null;
+  }
+
+  const caseStatements = findStateCaseStatements(transitionBlockNode, new Set([stateVarName, nextStateVarName]));
+  if (caseStatements.length === 0) {
+    return null;
+  }
+
+  const caseLabels = inferStatesFromCase(caseStatements[0], new Set([stateVarName, nextStateVarName]));
+  const stateSet =
+    detectOneHotStates(caseStatements[0], stateVarName, paramSets) ||
+    matchParameterStates(paramSets, caseLabels, stateVarName);
+  if (!stateSet) {
+    return null;
+  }
+
+  return buildFSMFromStateSet(stateSet, pair, alwaysBlocks, root);
+}
+
+/**
+ * Build an FSM from a known state set and its state registers.
+ */
+function buildFSMFromStateSet(
+  enumDef: EnumDefinition,
+  pair: { state: StateRegister; nextState?: StateRegister },
+  alwaysBlocks: AlwaysBlock[],
+  root: SyntaxNode
+): FSM | null {
+  const stateVarName = pair.state.varName;
+  const nextStateVarName = pair.nextState?.varName || stateVarName;
+  const stateNames = new Set(enumDef.states.map((s) => s.name));
 
   // Find the transition block
   const transitionBlock = getTransitionBlock(alwaysBlocks, stateVarName, nextStateVarName);
@@ -99,48 +183,99 @@ function buildFSMFromEnum(
 
   // Extract transitions from the first case statement
   const caseStmt = caseStatements[0];
-  const { transitions, hasDefaultAssignment } = extractTransitions(
+  const encodings = getStateEncodings(enumDef);
+  const { transitions, hasDefaultAssignment, recoveryState } = extractTransitions(
     caseStmt,
     stateVarName,
     nextStateVarName,
     stateNames,
-    transitionBlock.type
+    transitionBlock.type,
+    encodings
   );
 
+  // Outputs are attached to transitions by ID
+  assignTransitionIds(transitions);
+
   // Extract outputs
   const outputsResult = extractOutputsFromCaseStatement(
     caseStmt,
     stateVarName,
     nextStateVarName,
-    stateNames
+    stateNames,
+    encodings,
+    transitions
+  );
+
+  // Outputs decoded from the state in blocks of their own (three-block style)
+  const outputBlocks = findOutputBlocks(alwaysBlocks, stateVarName, nextStateVarName, root);
+  for (const { caseStmt: outputCase } of outputBlocks) {
+    mergeOutputs(
+      outputsResult,
+      extractOutputsFromCaseStatement(outputCase, stateVarName, nextStateVarName, stateNames, encodings, transitions)
+    );
+  }
+  // Outputs decoded from state comparisons (assign busy = state == RUN;)
+  mergeOutputs(outputsResult, extractDecodedOutputs(root, stateVarName, nextStateVarName, stateNames, encodings));
+  // Output flops loaded from state comparisons (if (state == IDLE && go) busy_q <= 1;)
+  mergeOutputs(
+    outputsResult,
+    extractRegisteredOutputs(root, stateVarName, nextStateVarName, stateNames, encodings, transitions)
   );
+  const hasOutputBlock = outputBlocks.some((block) => !block.onTransition);
+  const blockStyle = detectBlockStyle(alwaysBlocks, stateVarName, pair.nextState?.varName, hasOutputBlock);
 
   // Attach Mealy outputs to transitions
   attachOutputsToTransitions(transitions, outputsResult.mealyOutputsByTransition);
 
   // Find reset state
   const ffBlock = alwaysBlocks.find(
-    (b) => b.type === 'always_ff' && b.stateAssignments.includes(stateVarName)
+    (b) => isClockedBlock(b) && b.stateAssignments.includes(stateVarName)
   );
   let resetState: string | undefined;
+  const regions = [getNodeRegion(transitionBlockNode)];
   if (ffBlock) {
     const ffNode = findAlwaysBlockNode(root, ffBlock.line);
     if (ffNode) {
-      resetState = extractResetState(ffNode, stateVarName, stateNames) || undefined;
+      resetState = extractResetState(ffNode, stateVarName, stateNames, encodings) || undefined;
+      if (ffNode.id !== transitionBlockNode.id) {
+        regions.push(getNodeRegion(ffNode));
+      }
     }
   }
+  regions.push(...outputBlocks.map(({ node }) => getNodeRegion(node)));
   // Fallback to first state
   if (!resetState && enumDef.states.length > 0) {
     resetState = enumDef.states[0].name;
   }
 
   // Build states with Moore outputs
-  const states = enumDef.states.map((s) => ({
-    name: s.name,
-    encoding: s.encoding,
-    line: s.line,
-    outputs: outputsResult.mooreOutputsByState.get(s.name) || [],
-  }));
+  const states = enumDef.states.map((s) => {
+    const state: FSMState = {
+      name: s.name,
+      encoding: s.encoding,
+      line: s.line,
+      outputs: outputsResult.mooreOutputsByState.get(s.name) || [],
+    };
+    const mealyOutputs = outputsResult.mealyOutputsByState.get(s.name);
+    if (mealyOutputs) {
+      state.mealyOutputs = mealyOutputs;
+    }
+    return state;
+  });
+
+  // Defaults before the state cases (ack = 1'b0;) apply where a state
+  // doesn't assign the output itself
+  const defaultOutputs = [caseStmt, ...outputBlocks.map((block) => block.caseStmt)].flatMap((dispatch) =>
+    extractDefaultOutputs(dispatch, stateVarName, nextStateVarName)
+  );
+  applyDefaultOutputs(states, transitions, defaultOutputs);
+  const outputSignals = Array.from(
+    new Set([...defaultOutputs.map((output) => output.signal), ...outputsResult.outputSignals])
+  );
+
+  // Channel index of a replicated FSM (go[i]) isn't an input
+  const instances = detectReplication(pair, caseStmt, root);
+  const inputSignals = outputsResult.inputSignals.filter((signal) => signal !== instances?.indexVar);
 
   // Calculate confidence
   const confidence = calculateConfidence(
@@ -163,11 +298,53 @@ function buildFSMFromEnum(
     confidenceBreakdown: confidence.breakdown,
     warnings: [],
     errors: [],
-    inputSignals: outputsResult.inputSignals,
-    outputSignals: outputsResult.outputSignals,
+    inputSignals,
+    outputSignals,
+    regions,
+    instances,
+    unusedEncodings: findUnusedEncodings(enumDef, pair.state, encodings, recoveryState),
+    defaultOutputs: defaultOutputs.length > 0 ? defaultOutputs : undefined,
   };
 }
 
+/**
+ * List the codes of an enum's base type that no state uses.
+ *
+ * Parameter-encoded states take the width of their register
+ * (reg [1:0] state). Only widths of at most MAX_ENCODING_WIDTH bits are
+ * checked: a plain enum { ... } is an int, whose unused codes aren't a
+ * design choice.
+ *
+ * @param recoveryState - Where the default case item goes, if anywhere
+ * @returns undefined when every code is a state or the width is unknown
+ */
+function findUnusedEncodings(
+  enumDef: EnumDefinition,
+  stateReg: StateRegister,
+  encodings: Map<string, number>,
+  recoveryState: string | undefined
+): UnusedEncodings | undefined {
+  const width = enumDef.width ?? stateReg.width;
+  if (width === undefined || width > MAX_ENCODING_WIDTH || encodings.size !== enumDef.states.length) {
+    return undefined;
+  }
+
+  const used = new Set(encodings.values());
+  const count = 2 ** width - used.size;
+  if (count <= 0) {
+    return undefined;
+  }
+
+  const codes: string[] = [];
+  for (let code = 0; code < 2 ** width && codes.length < MAX_LISTED_ENCODINGS; code++) {
+    if (!used.has(code)) {
+      codes.push(`${width}'b${code.toString(2).padStart(width, '0')}`);
+    }
+  }
+
+  return recoveryState ? { width, count, codes, recoveryState } : { width, count, codes };
+}
+
 /**
  * Build an FSM from register pairs (when no typed enum found).
  */
@@ -198,7 +375,7 @@ function buildFSMFromRegisters(
   }
 
   // Infer states from case labels
-  const stateNames = inferStatesFromCase(caseStatements[0]);
+  const stateNames = inferStatesFromCase(caseStatements[0], new Set([stateVarName, nextStateVarName]));
   if (stateNames.size === 0) {
     return null;
   }
@@ -225,7 +402,7 @@ function buildFSMFromRegisters(
     encoding: 'unknown',
     stateVarName,
     nextStateVarName: pair.nextState ? nextStateVarName : undefined,
-    blockStyle: detectBlockStyle(alwaysBlocks, stateVarName, nextStateVarName),
+    blockStyle: detectBlockStyle(alwaysBlocks, stateVarName, pair.nextState?.varName),
     confidence: 0.5,
     confidenceBreakdown: {
       stateDetection: 0.5,
@@ -237,9 +414,77 @@ function buildFSMFromRegisters(
     errors: [],
     inputSignals: [],
     outputSignals: [],
+    regions: [getNodeRegion(transitionBlockNode)],
+    instances: detectReplication(pair, caseStatements[0], root),
   };
 }
 
+/**
+ * Find the output blocks of an FSM: always blocks that case on the state
+ * register (or, when clocked, on the next state) but assign neither state
+ * variable.
+ *
+ * A clocked block on the current state holds output flops loaded on the
+ * transitions (onTransition), not the output logic of a three-block FSM.
+ *
+ * Patterns we handle:
+ * - always_comb begin ready = 1'b0; case (state) IDLE: ready = 1'b1; ... endcase end
+ * - always_ff @(posedge clk) case (state) RUN: busy <= 1'b1; ... endcase
+ * - always_ff @(posedge clk) case (next_state) RUN: busy_q <= 1'b1; ... endcase
+ * - always @* if (state == IDLE) ... else if (state == RUN) ...
+ */
+function findOutputBlocks(
+  alwaysBlocks: AlwaysBlock[],
+  stateVarName: string,
+  nextStateVarName: string,
+  root: SyntaxNode
+): Array<{ node: SyntaxNode; caseStmt: SyntaxNode; onTransition: boolean }> {
+  const outputBlocks: Array<{ node: SyntaxNode; caseStmt: SyntaxNode; onTransition: boolean }> = [];
+
+  for (const block of alwaysBlocks) {
+    if (block.stateAssignments.includes(stateVarName) || block.stateAssignments.includes(nextStateVarName)) {
+      continue;
+    }
+    const node = findAlwaysBlockNode(root, block.line);
+    if (!node) {
+      continue;
+    }
+    const clocked = isClockedBlock(block);
+    const [nextStateCase] = clocked && nextStateVarName !== stateVarName
+      ? findStateCaseStatements(node, new Set([nextStateVarName]))
+      : [];
+    const [caseStmt] = nextStateCase ? [nextStateCase] : findStateCaseStatements(node, new Set([stateVarName]));
+    if (caseStmt) {
+      outputBlocks.push({ node, caseStmt, onTransition: clocked && !nextStateCase });
+    }
+  }
+
+  return outputBlocks;
+}
+
+/**
+ * Add the outputs of another case on the state to an extraction result.
+ */
+function mergeOutputs(
+  target: ReturnType<typeof extractOutputsFromCaseStatement>,
+  source: ReturnType<typeof extractOutputsFromCaseStatement>
+): void {
+  for (const key of ['mooreOutputsByState', 'mealyOutputsByTransition', 'mealyOutputsByState'] as const) {
+    for (const [name, outputs] of source[key]) {
+      target[key].set(name, [...(target[key].get(name) || []), ...outputs]);
+    }
+  }
+  target.outputSignals = Array.from(new Set([...target.outputSignals, ...source.outputSignals]));
+  target.inputSignals = Array.from(new Set([...target.inputSignals, ...source.inputSignals]));
+}
+
+/**
+ * Get the line range of a node.
+ */
+function getNodeRegion(node: SyntaxNode): SourceLocation {
+  return { line: getNodeLine(node), endLine: node.endPosition.row + 1 };
+}
+
 /**
  * Find an always block node by line number.
  */
@@ -256,23 +501,16 @@ function findAlwaysBlockNode(root: SyntaxNode, line: number): SyntaxNode | null
 /**
  * Infer state names from case statement labels.
  */
-function inferStatesFromCase(caseStmt: SyntaxNode): Set<string> {
+function inferStatesFromCase(caseStmt: SyntaxNode, stateVarNames: Set<string>): Set<string> {
   const states = new Set<string>();
-  const text = getNodeText(caseStmt);
-
-  // Look for case item labels
-  const caseItems = findNodesOfType(caseStmt, 'case_item');
-  for (const item of caseItems) {
-    const itemText = getNodeText(item);
-    const colonIndex = itemText.indexOf(':');
-    if (colonIndex > 0) {
-      const label = itemText.substring(0, colonIndex).trim();
-      // Filter out 'default'
-      if (label.toLowerCase() !== 'default') {
-        // Check if it looks like a state name (uppercase identifier)
-        if (/^[A-Z_][A-Z0-9_]*$/.test(label)) {
-          states.add(label);
-        }
+  const ir = buildStateDispatch(caseStmt, stateVarNames);
+
+  // Look for case item labels (default items have none)
+  for (const item of ir ? ir.items : []) {
+    for (const label of item.labels.map(stripPackageScope)) {
+      // Check if it looks like a state name (uppercase identifier)
+      if (/^[A-Z_][A-Z0-9_]*$/.test(label)) {
+        states.add(label);
       }
     }
   }
@@ -290,7 +528,7 @@ function calculateConfidence(
   outputsResult: any
 ): { overall: number; breakdown: { stateDetection: number; transitionExtraction: number; resetDetection: number; outputExtraction: number } } {
   const breakdown = {
-    stateDetection: 1.0, // Found typedef enum
+    stateDetection: enumDef.kind === 'parameter' ? 0.9 : 1.0, // Found typedef enum or localparams
     transitionExtraction: 0.8,
     resetDetection: resetState ? 1.0 : 0.5,
     outputExtraction: 0.7,
@@ -317,7 +555,8 @@ function calculateConfidence(
 }
 
 /**
- * Get module name from the root AST node.
+ * Get module name from a module_declaration node, or from the first module
+ * declared under a root node.
  */
 export function getModuleName(root: SyntaxNode): string | null {
   const moduleNodes = findNodesOfType(root, 'module_declaration');
@@ -326,6 +565,6 @@ export function getModuleName(root: SyntaxNode): string | null {
   }
 
   const moduleText = getNodeText(moduleNodes[0]);
-  const match = moduleText.match(/module\s+(\w+)/i);
+  const match = moduleText.match(/\b(?:macro)?module\s+(?:(?:static|automatic)\s+)?(\w+)/i);
   return match ? match[1] : null;
 }
@@ -0,0 +1,91 @@
+import type { SyntaxNode } from '../parser/ast-walker.js';
+import { getNodeLine } from '../parser/ast-walker.js';
+import { stripPackageScope } from '../parser/queries.js';
+import { buildStatement } from '../parser/statement-ir.js';
+import type { CaseStatement } from '../parser/statement-ir.js';
+import { isOneBit } from './case-labels.js';
+import { parseVerilogNumber } from './enum-detector.js';
+import type { EnumDefinition } from '../types.js';
+
+/**
+ * Check if a case statement is a reverse-case one-hot decoder on one of
+ * the given variables: case (1'b1) state[IDLE_B]: ... endcase
+ */
+export function isReverseStateCase(caseStmt: CaseStatement, stateVarNames: Set<string>): boolean {
+  if (!isOneBit(caseStmt.expression)) {
+    return false;
+  }
+  const labels = caseStmt.items.flatMap((item) => item.labels);
+  return labels.length > 0 && labels.every((label) => {
+    const match = label.replace(/\s+/g, '').match(/^(\w+)\[[^\]:]+\]$/);
+    return match !== null && stateVarNames.has(match[1]);
+  });
+}
+
+/**
+ * Build the state set of a reverse-case one-hot FSM.
+ *
+ * Patterns we handle:
+ * - case (1'b1) state[IDLE_B]: ...   (IDLE_B = 0 from a localparam)
+ * - case (1'b1) state[0]: ...        (literal bit position, named S0)
+ * - unique case (1'b1) / case (1)
+ *
+ * Each bit position becomes a state named after its index parameter and
+ * encoded as the one-hot value 1 << position.
+ *
+ * @param caseStmt - The reverse case statement
+ * @param typeName - Name for the state set (the state variable)
+ * @param paramSets - Parameter sets that may define the bit positions
+ * @returns The state set, or null if a bit position cannot be resolved
+ */
+export function detectOneHotStates(
+  caseStmt: SyntaxNode,
+  typeName: string,
+  paramSets: EnumDefinition[]
+): EnumDefinition | null {
+  if (caseStmt.type !== 'case_statement') {
+    return null;
+  }
+  const ir = buildStatement(caseStmt) as CaseStatement;
+  if (!isOneBit(ir.expression)) {
+    return null;
+  }
+
+  const params = new Map(paramSets.flatMap((set) => set.states).map((p) => [p.name, p]));
+  const bits: Array<{ name: string; position: number; line: number }> = [];
+
+  for (const item of ir.items) {
+    for (const label of item.labels) {
+      const match = label.replace(/\s+/g, '').match(/^\w+\[([^\]:]+)\]$/);
+      if (!match) {
+        return null;
+      }
+
+      const index = stripPackageScope(match[1]);
+      const param = params.get(index);
+      const position = param?.value ?? parseVerilogNumber(param?.encoding ?? index);
+      if (position === null) {
+        return null;
+      }
+      if (!bits.some((b) => b.position === position)) {
+        bits.push({ name: param ? index : `S${position}`, position, line: param?.line ?? item.line });
+      }
+    }
+  }
+
+  if (bits.length === 0) {
+    return null;
+  }
+
+  const width = Math.max(...bits.map((b) => b.position)) + 1;
+  return {
+    typeName,
+    states: bits.map((b) => ({
+      name: b.name,
+      encoding: `${width}'b${(2 ** b.position).toString(2).padStart(width, '0')}`,
+      line: b.line,
+    })),
+    line: Math.min(...bits.map((b) => b.line)),
+    kind: 'parameter',
+  };
+}
@@ -1,11 +1,12 @@
 import type { SyntaxNode } from '../parser/ast-walker.js';
-import {
-  walkTree,
-  findNodesOfType,
-  getNodeText,
-  getNodeLine,
-} from '../parser/ast-walker.js';
-import type { FSMOutput, FSMTransition, CaseItem, Assignment, ConditionalBlock } from '../types.js';
+import { findAncestorOfType } from '../parser/ast-walker.js';
+import { buildStatement, collectAssignments, isSameCondition, joinGuards } from '../parser/statement-ir.js';
+import type { AssignStatement, Statement } from '../parser/statement-ir.js';
+import { resolveCaseItemStates, resolveAssignedState } from './case-labels.js';
+import { buildStateDispatch } from './if-chain-detector.js';
+import { simplifyCondition } from './transition-builder.js';
+import { analyzeAlwaysBlock, isClockedBlock } from './always-analyzer.js';
+import type { FSM, FSMOutput, FSMState, FSMTransition, OutputKind, OutputTable, CaseItem, ConditionalBlock } from '../types.js';
 
 /**
  * Extract Moore outputs from a case item.
@@ -94,70 +95,136 @@ export function extractMealyOutputs(
 
 /**
  * Extract all outputs from a case statement.
+ *
+ * Moore outputs are the unguarded assignments of a case item. Mealy outputs
+ * are assignments in an if/else branch that also assigns the next state;
+ * they are keyed by the ID of the transition that branch takes (see
+ * getTransitionId), so branches between the same states keep their own
+ * outputs. Other guarded assignments, and branches matching none of the
+ * transitions, are Mealy outputs of the state itself, with their guard as
+ * FSMOutput.condition. Guarded output flops of a clocked block on the
+ * current state go to the transition out of the state with the same guard.
+ *
+ * Patterns we handle:
+ * - IDLE: begin ready = 1'b1; if (go) begin ack = 1'b1; next_state = RUN; end end
+ * - RUN: if (err) irq = 1'b1;          (output-only block: guarded by an input)
+ *
+ * Outputs of a clocked block are registered (see getOutputKinds).
+ *
+ * @param transitions - Transitions of the FSM, with their IDs assigned
  */
 export function extractOutputsFromCaseStatement(
   caseStmt: SyntaxNode,
   stateVarName: string,
   nextStateVarName: string,
-  stateNames: Set<string>
+  stateNames: Set<string>,
+  encodings: Map<string, number> = new Map(),
+  transitions: FSMTransition[] = []
 ): {
   mooreOutputsByState: Map<string, FSMOutput[]>;
-  mealyOutputsByTransition: Map<string, FSMOutput[]>; // key: "FROM->TO"
+  mealyOutputsByTransition: Map<string, FSMOutput[]>; // key: transition ID
+  mealyOutputsByState: Map<string, FSMOutput[]>;
   outputSignals: string[];
   inputSignals: string[];
 } {
   const mooreOutputsByState = new Map<string, FSMOutput[]>();
   const mealyOutputsByTransition = new Map<string, FSMOutput[]>();
+  const mealyOutputsByState = new Map<string, FSMOutput[]>();
   const outputSignals = new Set<string>();
   const inputSignals = new Set<string>();
 
-  // Find case items
-  const caseItems = findNodesOfType(caseStmt, 'case_item');
+  // A case statement, or an if/else-if chain on the state seen as one
+  const ir = buildStateDispatch(caseStmt, new Set([stateVarName, nextStateVarName]));
+  const items = ir ? ir.items : [];
+  const itemStates = ir ? resolveCaseItemStates(ir, stateNames, encodings) : [];
+  const kinds = getOutputKinds(caseStmt, ir?.expression ?? '', stateVarName, nextStateVarName);
 
-  for (const itemNode of caseItems) {
-    const itemText = getNodeText(itemNode);
-    const state = extractStateName(itemText, stateNames);
+  for (const [index, item] of items.entries()) {
+    const states = itemStates[index];
+    if (states.length === 0) continue;
 
-    if (!state) continue;
+    const assignments = collectAssignments(item.body);
 
-    // Parse the case item
-    const item = parseCaseItemForOutputs(itemNode, itemText, stateVarName, nextStateVarName);
+    // Next state taken by each guarded branch, and the line assigning it
+    const branchTargets = new Map<Statement, { toState: string; line: number }>();
+    for (const { assign, guards, branch } of assignments) {
+      if (guards.length === 0 || !isStateVar(assign.target, stateVarName, nextStateVarName)) {
+        continue;
+      }
+      const varName = assign.target.replace(/\[.*\]$/, '');
+      const current = states.length === 1 ? { varName: stateVarName, state: states[0] } : undefined;
+      const toState = resolveAssignedState(assign.target, assign.value, varName, stateNames, encodings, current);
+      if (toState) {
+        branchTargets.set(branch, { toState, line: assign.line });
+      }
+    }
 
     // Extract Moore outputs (unconditional assignments)
     const mooreOutputs: FSMOutput[] = [];
-    for (const assign of item.directAssignments) {
-      if (!isStateVar(assign.target, stateVarName, nextStateVarName)) {
-        mooreOutputs.push({
-          signal: assign.target,
-          value: assign.value,
-          line: assign.line,
-        });
+    const mealyOutputs = new Map<Statement, { outputs: FSMOutput[]; condition: string }>(); // key: branch taking a transition
+    const guardedOutputs: Array<{ output: FSMOutput; condition: string; guards: string[] }> = [];
+
+    for (const { assign, guards, branch } of assignments) {
+      for (const guard of guards) {
+        for (const input of extractIdentifiers(guard)) {
+          if (!stateNames.has(input) && !isStateVar(input, stateVarName, nextStateVarName)) {
+            inputSignals.add(input);
+          }
+        }
+      }
+
+      if (isStateVar(assign.target, stateVarName, nextStateVarName)) {
+        continue;
+      }
+
+      const output: FSMOutput = { signal: assign.target, value: assign.value, line: assign.line };
+      if (guards.length === 0) {
+        mooreOutputs.push({ ...output, kind: kinds.unguarded });
+        outputSignals.add(assign.target);
+      } else {
+        // Extract Mealy outputs (conditional assignments with transitions)
+        const condition = simplifyCondition(joinGuards(guards));
+        if (branchTargets.has(branch)) {
+          const outputs = mealyOutputs.get(branch)?.outputs || [];
+          mealyOutputs.set(branch, { outputs: [...outputs, { ...output, kind: kinds.guarded }], condition });
+        } else {
+          guardedOutputs.push({ output: { ...output, kind: kinds.guarded }, condition, guards });
+        }
         outputSignals.add(assign.target);
       }
     }
-    if (mooreOutputs.length > 0) {
-      mooreOutputsByState.set(state, mooreOutputs);
-    }
 
-    // Extract Mealy outputs (conditional assignments with transitions)
-    for (const cond of item.conditionalBlocks) {
-      const { outputs, transitionKey, inputs } = extractMealyFromConditional(
-        cond,
-        state,
-        stateVarName,
-        nextStateVarName,
-        stateNames
-      );
-
-      if (transitionKey && outputs.length > 0) {
-        mealyOutputsByTransition.set(transitionKey, outputs);
-        for (const o of outputs) {
-          outputSignals.add(o.signal);
+    for (const state of states) {
+      if (mooreOutputs.length > 0) {
+        mooreOutputsByState.set(state, mooreOutputs);
+      }
+      const stateGuarded: FSMOutput[] = [];
+      for (const { output, condition, guards } of guardedOutputs) {
+        // An output flop loaded on the state and the guard of a transition
+        const taken = output.kind === 'registered-transition'
+          ? transitions.filter(
+              (t) => t.id && t.from === state && t.rawCondition !== undefined && isSameCondition(t.rawCondition, guards)
+            )
+          : [];
+        for (const transition of taken) {
+          mealyOutputsByTransition.set(transition.id!, [...(mealyOutputsByTransition.get(transition.id!) || []), output]);
+        }
+        if (taken.length === 0) {
+          stateGuarded.push({ ...output, condition });
         }
       }
-
-      for (const input of inputs) {
-        inputSignals.add(input);
+      for (const [branch, { outputs, condition }] of mealyOutputs) {
+        const { toState, line } = branchTargets.get(branch)!;
+        const taken = transitions.filter((t) => t.id && t.from === state && t.to === toState && t.line === line);
+        for (const transition of taken) {
+          mealyOutputsByTransition.set(transition.id!, outputs);
+        }
+        if (taken.length === 0) {
+          stateGuarded.push(...outputs.map((output) => ({ ...output, condition })));
+        }
+      }
+      if (stateGuarded.length > 0) {
+        mealyOutputsByState.set(state, stateGuarded);
       }
     }
   }
@@ -165,194 +232,188 @@ export function extractOutputsFromCaseStatement(
   return {
     mooreOutputsByState,
     mealyOutputsByTransition,
+    mealyOutputsByState,
     outputSignals: Array.from(outputSignals),
     inputSignals: Array.from(inputSignals),
   };
 }
 
 /**
- * Parse a case item for output extraction.
+ * Classify the outputs written in a state dispatch by the block around it.
+ *
+ * - always_comb / always @*: unguarded outputs are Moore, guarded ones Mealy
+ * - clocked, case (next_state): registered from the next state
+ * - clocked, case (state): registered on the transition out of the state
+ *   (one-block FSMs, and output flops loaded from the current state)
  */
-function parseCaseItemForOutputs(
-  itemNode: SyntaxNode,
-  itemText: string,
+function getOutputKinds(
+  caseStmt: SyntaxNode,
+  dispatchExpression: string,
   stateVarName: string,
   nextStateVarName: string
-): {
-  directAssignments: Assignment[];
-  conditionalBlocks: ConditionalBlock[];
-} {
-  const directAssignments: Assignment[] = [];
-  const conditionalBlocks: ConditionalBlock[] = [];
-  const line = getNodeLine(itemNode);
-
-  // Extract content after the colon
-  const colonIndex = itemText.indexOf(':');
-  if (colonIndex < 0) {
-    return { directAssignments, conditionalBlocks };
-  }
-
-  const content = itemText.substring(colonIndex + 1);
-
-  // Check for begin/end block
-  const beginMatch = content.match(/begin([\s\S]*?)end/i);
-  const blockContent = beginMatch ? beginMatch[1] : content;
-
-  // Find if statements
-  const ifMatches = blockContent.matchAll(/if\s*\(([^)]+)\)\s*(?:begin\s*)?([\s\S]*?)(?:end|(?=\s*else|\s*$))/gi);
-
-  let processedRanges: Array<[number, number]> = [];
-
-  for (const match of ifMatches) {
-    const condition = match[1].trim();
-    const body = match[2];
-    const startIndex = match.index!;
-    const endIndex = startIndex + match[0].length;
-    processedRanges.push([startIndex, endIndex]);
-
-    const assignments = parseAssignments(body, line);
-
-    conditionalBlocks.push({
-      condition,
-      assignments,
-      line,
-    });
+): { unguarded: OutputKind; guarded: OutputKind } {
+  const block = findAncestorOfType(caseStmt, 'always_construct');
+  if (!block || !isClockedBlock(analyzeAlwaysBlock(block))) {
+    return { unguarded: 'moore', guarded: 'mealy' };
   }
-
-  // Extract direct assignments (not in if blocks)
-  const directContent = removeRanges(blockContent, processedRanges);
-  directAssignments.push(...parseAssignments(directContent, line));
-
-  return { directAssignments, conditionalBlocks };
+  const onNextState = nextStateVarName !== stateVarName &&
+    dispatchExpression.replace(/\[.*\]$/, '').trim() === nextStateVarName;
+  const kind = onNextState ? 'registered-next-state' : 'registered-transition';
+  return { unguarded: kind, guarded: kind };
 }
 
 /**
- * Parse assignments from text.
+ * Check if a variable is a state variable.
  */
-function parseAssignments(text: string, baseLine: number): Assignment[] {
-  const assignments: Assignment[] = [];
-  const pattern = /(\w+)\s*(<=|=)\s*([^;]+);/g;
-
-  let match;
-  while ((match = pattern.exec(text)) !== null) {
-    assignments.push({
-      target: match[1],
-      value: match[3].trim(),
-      line: baseLine,
-      isBlocking: match[2] === '=',
-    });
-  }
+function isStateVar(name: string, stateVarName: string, nextStateVarName: string): boolean {
+  name = name.replace(/\[.*\]$/, ''); // next_state[RUN_B] (one-hot)
+  return name === stateVarName || name === nextStateVarName;
+}
 
-  return assignments;
+/**
+ * Extract the identifiers referenced in a condition, skipping literals
+ * (8'hFF) and operator keywords.
+ */
+export function extractIdentifiers(condition: string): string[] {
+  const withoutLiterals = condition.replace(/\d*\s*'[sS]?[bBoOdDhH]\s*[0-9a-fA-F_xXzZ?]+/g, ' ');
+  const names = withoutLiterals.match(/\b[a-zA-Z_][a-zA-Z0-9_]*\b/g) || [];
+  return names.filter((v) => !['and', 'or', 'not', 'inside'].includes(v.toLowerCase()));
 }
 
 /**
- * Remove ranges from text.
+ * Attach extracted outputs to transitions, by transition ID.
  */
-function removeRanges(text: string, ranges: Array<[number, number]>): string {
-  let result = text;
-  // Sort ranges in reverse order to maintain indices
-  ranges.sort((a, b) => b[0] - a[0]);
-  for (const [start, end] of ranges) {
-    result = result.substring(0, start) + result.substring(end);
+export function attachOutputsToTransitions(
+  transitions: FSMTransition[],
+  mealyOutputsByTransition: Map<string, FSMOutput[]>
+): void {
+  for (const transition of transitions) {
+    if (transition.isGlobal) {
+      continue; // Not written in a state's branch
+    }
+    const outputs = transition.id ? mealyOutputsByTransition.get(transition.id) : undefined;
+    if (outputs) {
+      transition.outputs = outputs;
+    }
   }
-  return result;
 }
 
 /**
- * Extract state name from case item text.
+ * Extract the output defaults assigned before a state case.
+ *
+ * Patterns we handle:
+ * - always_comb begin ack = 1'b0; busy = 1'b0; case (state) ... endcase end
+ * - always @* begin next_state = state; ready = 0; if (state == IDLE) ... end
+ * - busy = 1'b0; case (state) ...       (on the same line as the case)
+ *
+ * Only unguarded assignments ahead of the case in the blocks around it
+ * count, and the last one to a signal wins. Assignments that read the
+ * state are decoded outputs, not defaults.
  */
-function extractStateName(itemText: string, stateNames: Set<string>): string | null {
-  const colonIndex = itemText.indexOf(':');
-  if (colonIndex < 0) return null;
-
-  const label = itemText.substring(0, colonIndex).trim();
-
-  // Check if it's a known state
-  if (stateNames.has(label)) {
-    return label;
+export function extractDefaultOutputs(
+  caseStmt: SyntaxNode,
+  stateVarName: string,
+  nextStateVarName: string
+): FSMOutput[] {
+  const block = findAncestorOfType(caseStmt, 'always_construct');
+  if (!block) {
+    return []; // Dispatch inside a function
   }
 
-  // Try to find a state name in the label
-  for (const state of stateNames) {
-    if (label.includes(state)) {
-      return state;
+  const kind: OutputKind = isClockedBlock(analyzeAlwaysBlock(block)) ? 'registered-transition' : 'moore';
+  const readsState = new RegExp(`\\b${stateVarName}\\b`);
+  const defaults = new Map<string, FSMOutput>();
+  for (const assign of findAssignmentsBefore(buildStatement(block), caseStmt) ?? []) {
+    if (!isStateVar(assign.target, stateVarName, nextStateVarName) && !readsState.test(assign.value)) {
+      defaults.set(assign.target, { signal: assign.target, value: assign.value, line: assign.line, kind });
     }
   }
 
-  return null;
+  return Array.from(defaults.values());
 }
 
 /**
- * Check if a variable is a state variable.
+ * Find the unguarded assignments executed before a statement: those ahead
+ * of it in each block on the way down to it, in execution order.
+ *
+ * @returns The assignments, or null if the statement isn't reached
+ *          through blocks only
  */
-function isStateVar(name: string, stateVarName: string, nextStateVarName: string): boolean {
-  return name === stateVarName || name === nextStateVarName;
+function findAssignmentsBefore(stmt: Statement, target: SyntaxNode): AssignStatement[] | null {
+  if (stmt.node.id === target.id) {
+    return [];
+  }
+  if (stmt.kind !== 'block') {
+    return null;
+  }
+
+  const before: AssignStatement[] = [];
+  for (const child of stmt.statements) {
+    const inner = findAssignmentsBefore(child, target);
+    if (inner) {
+      return [...before, ...inner];
+    }
+    for (const { assign, guards } of collectAssignments(child)) {
+      if (guards.length === 0) {
+        before.push(assign);
+      }
+    }
+  }
+  return null;
 }
 
 /**
- * Extract Mealy outputs from a conditional block.
+ * Compute the effective outputs of every state and transition: the
+ * defaults, overridden by the values written for the state, then by those
+ * written on the transition. Values taken from the defaults are marked
+ * isInherited.
  */
-function extractMealyFromConditional(
-  cond: ConditionalBlock,
-  fromState: string,
-  stateVarName: string,
-  nextStateVarName: string,
-  stateNames: Set<string>
-): {
-  outputs: FSMOutput[];
-  transitionKey: string | null;
-  inputs: string[];
-} {
-  const outputs: FSMOutput[] = [];
-  let transitionKey: string | null = null;
-  const inputs: string[] = [];
-
-  // Extract input signals from condition
-  const condVars = cond.condition.match(/\b[a-zA-Z_][a-zA-Z0-9_]*\b/g);
-  if (condVars) {
-    for (const v of condVars) {
-      if (!['and', 'or', 'not'].includes(v.toLowerCase())) {
-        inputs.push(v);
-      }
-    }
+export function applyDefaultOutputs(states: FSMState[], transitions: FSMTransition[], defaults: FSMOutput[]): void {
+  if (defaults.length === 0) {
+    return;
   }
 
-  // Find state transition in this block
-  for (const assign of cond.assignments) {
-    if (isStateVar(assign.target, stateVarName, nextStateVarName)) {
-      // This is a state transition
-      const toState = assign.value;
-      if (stateNames.has(toState)) {
-        transitionKey = `${fromState}->${toState}`;
-      }
-    } else {
-      // This is an output
-      outputs.push({
-        signal: assign.target,
-        value: assign.value,
-        line: assign.line,
-      });
-    }
+  const inherited = defaults.map((output) => ({ ...output, isInherited: true }));
+  for (const state of states) {
+    state.effectiveOutputs = overrideOutputs(inherited, state.outputs);
   }
+  for (const transition of transitions) {
+    const from = states.find((s) => s.name === transition.from);
+    transition.effectiveOutputs = overrideOutputs(from?.effectiveOutputs ?? inherited, transition.outputs);
+  }
+}
 
-  return { outputs, transitionKey, inputs };
+/**
+ * Replace the values of a set of outputs, keeping their order.
+ */
+function overrideOutputs(base: FSMOutput[], overrides: FSMOutput[]): FSMOutput[] {
+  const outputs = new Map(base.map((output) => [output.signal, output]));
+  for (const output of overrides) {
+    outputs.set(output.signal, output);
+  }
+  return Array.from(outputs.values());
 }
 
 /**
- * Attach extracted outputs to transitions.
+ * Build the table of each state's effective output values.
+ *
+ * States without effective outputs (no defaults found) show their Moore
+ * outputs only.
  */
-export function attachOutputsToTransitions(
-  transitions: FSMTransition[],
-  mealyOutputsByTransition: Map<string, FSMOutput[]>
-): void {
-  for (const transition of transitions) {
-    const key = `${transition.from}->${transition.to}`;
-    const outputs = mealyOutputsByTransition.get(key);
-    if (outputs) {
-      transition.outputs = outputs;
+export function getOutputTable(fsm: FSM): OutputTable {
+  const signals: string[] = [];
+  const rows = fsm.states.map((state) => {
+    const values: Record<string, FSMOutput> = {};
+    for (const output of state.effectiveOutputs ?? state.outputs) {
+      values[output.signal] = output;
+      if (!signals.includes(output.signal)) {
+        signals.push(output.signal);
+      }
     }
-  }
+    return { state: state.name, values };
+  });
+
+  return { signals, rows };
 }
 
 /**
@@ -365,7 +426,11 @@ export function formatOutput(output: FSMOutput): string {
   // 1'b1 → 1, 1'b0 → 0
   value = value.replace(/1'b1/g, '1').replace(/1'b0/g, '0');
 
-  return `${output.signal}=${value}`;
+  // Registered outputs are marked; combinational ones are the usual case
+  const marker = output.kind === 'registered-next-state' ? ' (reg next)'
+    : output.kind === 'registered-transition' ? ' (reg)'
+    : '';
+  return `${output.signal}=${value}${marker}`;
 }
 
 /**
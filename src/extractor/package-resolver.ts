@@ -0,0 +1,151 @@
+import type { SyntaxNode } from '../parser/ast-walker.js';
+import {
+  walkTree,
+  findNodesOfType,
+  getNodeText,
+  getNodeLine,
+  getChildOfType,
+} from '../parser/ast-walker.js';
+import { detectEnumDefinitions } from './enum-detector.js';
+import type { EnumDefinition, PackageSymbolTable } from '../types.js';
+
+/**
+ * Key for enums declared outside any package or module ($unit scope).
+ */
+export const COMPILATION_UNIT_SCOPE = '$unit';
+
+/**
+ * Build a package/type symbol table from parsed files.
+ *
+ * Every package_declaration contributes the enums declared inside it:
+ *   package my_pkg;
+ *     typedef enum logic [1:0] { IDLE, RUN } state_t;
+ *   endpackage
+ *
+ * Enums declared at file level, outside any package or module, are visible
+ * to every module of the compilation unit and are stored under '$unit'.
+ */
+export function buildPackageSymbolTable(roots: SyntaxNode[]): PackageSymbolTable {
+  const table: PackageSymbolTable = new Map();
+
+  for (const root of roots) {
+    const unitEnums = detectEnumDefinitions(root).filter((e) => isCompilationUnitEnum(root, e));
+    if (unitEnums.length > 0) {
+      table.set(COMPILATION_UNIT_SCOPE, [...(table.get(COMPILATION_UNIT_SCOPE) || []), ...unitEnums]);
+    }
+
+    for (const pkgNode of findNodesOfType(root, 'package_declaration')) {
+      const pkgName = getPackageName(pkgNode);
+      if (!pkgName) continue;
+
+      const enums = table.get(pkgName) || [];
+      enums.push(...detectEnumDefinitions(pkgNode));
+      table.set(pkgName, enums);
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Check if an enum is declared outside any package or module.
+ */
+function isCompilationUnitEnum(root: SyntaxNode, enumDef: EnumDefinition): boolean {
+  const line = enumDef.line;
+  return ![
+    ...findNodesOfType(root, 'package_declaration'),
+    ...findNodesOfType(root, 'module_declaration'),
+  ].some((node) => line >= getNodeLine(node) && line <= node.endPosition.row + 1);
+}
+
+/**
+ * Get the name of a package declaration.
+ */
+function getPackageName(pkgNode: SyntaxNode): string | null {
+  const nameNode = pkgNode.childForFieldName('name') || getChildOfType(pkgNode, 'simple_identifier');
+  if (nameNode) {
+    return getNodeText(nameNode).trim();
+  }
+
+  const match = getNodeText(pkgNode).match(/package\s+(\w+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Resolve the package enums visible from a module.
+ *
+ * Compilation-unit enums are always visible. Package enums are visible
+ * once referenced.
+ *
+ * Patterns we handle:
+ * - import my_pkg::*;          (wildcard import)
+ * - import my_pkg::state_t;    (explicit type import)
+ * - import my_pkg::IDLE;       (explicit member import, brings in its enum)
+ * - my_pkg::state_t state;     (scope-qualified use without import)
+ * - import my_pkg::*; module top ...  (file-level import before the module)
+ *
+ * @param scope - Module (or root) node whose references are resolved
+ * @param table - Symbol table from buildPackageSymbolTable
+ */
+export function resolveImportedEnums(
+  scope: SyntaxNode,
+  table: PackageSymbolTable
+): EnumDefinition[] {
+  const results: EnumDefinition[] = [];
+  const add = (enumDef: EnumDefinition) => {
+    if (!results.includes(enumDef)) {
+      results.push(enumDef);
+    }
+  };
+
+  for (const enumDef of table.get(COMPILATION_UNIT_SCOPE) || []) {
+    add(enumDef);
+  }
+
+  const references: Array<{ pkg: string; item: string }> = [];
+
+  const collectImports = (node: SyntaxNode) => {
+    walkTree(node, (child) => {
+      if (child.type === 'package_import_item') {
+        const match = getNodeText(child).match(/^\s*(\w+)\s*::\s*(\*|\w+)/);
+        if (match) {
+          references.push({ pkg: match[1], item: match[2] });
+        }
+        return true;
+      }
+    });
+  };
+
+  collectImports(scope);
+
+  // File-level imports preceding the module apply to it as well
+  let sibling = scope.previousNamedSibling;
+  while (sibling && sibling.type !== 'module_declaration') {
+    if (sibling.type === 'package_import_declaration') {
+      collectImports(sibling);
+    }
+    sibling = sibling.previousNamedSibling;
+  }
+
+  // Scope-qualified names anywhere in the source (my_pkg::state_t, my_pkg::IDLE)
+  for (const match of getNodeText(scope).matchAll(/\b(\w+)\s*::\s*(\w+)\b/g)) {
+    references.push({ pkg: match[1], item: match[2] });
+  }
+
+  for (const { pkg, item } of references) {
+    const enums = table.get(pkg);
+    if (!enums) continue;
+
+    for (const enumDef of enums) {
+      if (
+        item === '*' ||
+        enumDef.typeName === item ||
+        enumDef.states.some((s) => s.name === item)
+      ) {
+        add(enumDef);
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,178 @@
+import type { SyntaxNode } from '../parser/ast-walker.js';
+import {
+  walkTree,
+  getNodeText,
+  getNodeLine,
+  getChildOfType,
+} from '../parser/ast-walker.js';
+import { buildParameterTable, evaluateConstant } from './const-eval.js';
+import type { EnumDefinition } from '../types.js';
+
+const PARAM_DECLARATION_TYPES = new Set(['local_parameter_declaration', 'parameter_declaration']);
+const COMMENT_TYPES = new Set(['comment', 'one_line_comment', 'block_comment']);
+
+/**
+ * Detect localparam/parameter state encodings in the AST.
+ *
+ * Patterns we handle:
+ * - localparam IDLE = 2'b00, RUN = 2'b01;
+ * - localparam [1:0] IDLE = 2'd0; localparam [1:0] RUN = 2'd1;
+ * - parameter IDLE = 0, RUN = 1;
+ * - module m #(parameter S_IDLE = 0, parameter S_RUN = 1) (...);
+ *
+ * Each comma-separated declaration forms one candidate state set, and
+ * consecutive declarations with the same keyword and data type are merged
+ * into the same set. Only parameters with a constant value (a literal, or an
+ * expression over other parameters) are kept, since the value is the state
+ * encoding.
+ * Matching a set to a state register happens later, by comparing the
+ * parameter names against the case labels on that register.
+ */
+export function detectParameterStates(root: SyntaxNode): EnumDefinition[] {
+  const results: EnumDefinition[] = [];
+  let current: EnumDefinition | null = null;
+  let lastAnchor: SyntaxNode | null = null;
+  let lastSignature = '';
+  const params = buildParameterTable(root);
+
+  walkTree(root, (node) => {
+    if (!PARAM_DECLARATION_TYPES.has(node.type)) {
+      return;
+    }
+
+    const states = extractParamStates(node, params);
+    const anchor = getDeclarationAnchor(node);
+    const signature = getDeclarationSignature(node);
+
+    if (states.length > 0) {
+      if (
+        current &&
+        lastAnchor &&
+        signature === lastSignature &&
+        previousDeclaration(anchor)?.id === lastAnchor.id
+      ) {
+        current.states.push(...states);
+      } else {
+        current = {
+          typeName: '',
+          states,
+          line: getNodeLine(node),
+          kind: 'parameter',
+        };
+        results.push(current);
+      }
+      lastAnchor = anchor;
+      lastSignature = signature;
+    }
+
+    return true; // Parameter declarations don't nest
+  });
+
+  return results;
+}
+
+/**
+ * Extract the constant-valued parameters of a single declaration.
+ */
+function extractParamStates(declNode: SyntaxNode, params: Map<string, number>): EnumDefinition['states'] {
+  const states: EnumDefinition['states'] = [];
+
+  walkTree(declNode, (node) => {
+    if (node.type !== 'param_assignment') {
+      return;
+    }
+
+    const nameNode = getChildOfType(node, 'simple_identifier');
+    const valueNode = getChildOfType(node, 'constant_param_expression');
+    if (nameNode && valueNode) {
+      const encoding = getNodeText(valueNode).trim();
+      const value = evaluateConstant(encoding, params);
+      if (value !== null) {
+        states.push({
+          name: getNodeText(nameNode).trim(),
+          encoding,
+          value,
+          line: getNodeLine(node),
+        });
+      }
+    }
+    return true;
+  });
+
+  return states;
+}
+
+/**
+ * Get the keyword and data type of a declaration, e.g. "localparam [1:0]".
+ */
+function getDeclarationSignature(declNode: SyntaxNode): string {
+  const typeNode = getChildOfType(declNode, 'data_type_or_implicit');
+  const typeText = typeNode ? getNodeText(typeNode).replace(/\s+/g, '') : '';
+  return `${declNode.type}:${typeText}`;
+}
+
+/**
+ * Get the node whose siblings decide whether two declarations are adjacent.
+ *
+ * Parameter port declarations are wrapped in parameter_port_declaration,
+ * so adjacency is checked on the wrapper instead.
+ */
+function getDeclarationAnchor(declNode: SyntaxNode): SyntaxNode {
+  const parent = declNode.parent;
+  if (parent && parent.type === 'parameter_port_declaration') {
+    return parent;
+  }
+  return declNode;
+}
+
+/**
+ * Find the previous named sibling, skipping comments.
+ */
+function previousDeclaration(node: SyntaxNode): SyntaxNode | null {
+  let prev = node.previousNamedSibling;
+  while (prev && COMMENT_TYPES.has(prev.type)) {
+    prev = prev.previousNamedSibling;
+  }
+  return prev;
+}
+
+/**
+ * Pick the parameter states used as labels in a state case statement.
+ *
+ * Every set that provides at least one label contributes all of its
+ * members, so states declared but never handled still show up (and get
+ * reported by the coverage validator).
+ *
+ * @returns An EnumDefinition-equivalent state set, or null if no
+ *          parameter matched any label
+ */
+export function matchParameterStates(
+  paramSets: EnumDefinition[],
+  caseLabels: Set<string>,
+  typeName: string
+): EnumDefinition | null {
+  const matched = paramSets.filter((set) =>
+    set.states.some((s) => caseLabels.has(s.name))
+  );
+  if (matched.length === 0) {
+    return null;
+  }
+
+  const seen = new Set<string>();
+  const states: EnumDefinition['states'] = [];
+  for (const set of matched) {
+    for (const state of set.states) {
+      if (!seen.has(state.name)) {
+        seen.add(state.name);
+        states.push(state);
+      }
+    }
+  }
+
+  return {
+    typeName,
+    states,
+    line: matched[0].line,
+    kind: 'parameter',
+  };
+}
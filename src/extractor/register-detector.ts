@@ -4,12 +4,14 @@ import {
   findNodesOfType,
   getNodeText,
   getNodeLine,
+  getChildOfType,
 } from '../parser/ast-walker.js';
 import {
   isStateVarName,
   isNextStateVarName,
   isExcludedStateVar,
 } from '../parser/queries.js';
+import { buildParameterTable, evaluateConstant } from './const-eval.js';
 import type { StateRegister, EnumDefinition } from '../types.js';
 
 /**
@@ -18,7 +20,8 @@ import type { StateRegister, EnumDefinition } from '../types.js';
  * Patterns we handle:
  * - state_t state, next_state;
  * - state_t current_state;
- * - logic [1:0] state, ns;
+ * - logic [1:0] state, ns;           (width from the packed dimension)
+ * - state_t state_q [NUM_CH];       (state register array, see arraySize)
  */
 export function detectStateRegisters(
   root: SyntaxNode,
@@ -26,19 +29,29 @@ export function detectStateRegisters(
 ): StateRegister[] {
   const results: StateRegister[] = [];
   const enumTypeNames = new Set(enumDefs.map((e) => e.typeName));
+  let params: Map<string, number> | undefined;
+  const getParams = () => (params ??= buildParameterTable(root));
 
   // Find all variable declarations
   const dataDecls = findNodesOfType(root, 'data_declaration');
 
   for (const dataDecl of dataDecls) {
-    const registers = extractStateRegistersFromDecl(dataDecl, enumTypeNames);
+    // import my_pkg::state_t; and typedefs are data_declarations too,
+    // but declare no variables
+    if (
+      getChildOfType(dataDecl, 'package_import_declaration') ||
+      getChildOfType(dataDecl, 'type_declaration')
+    ) {
+      continue;
+    }
+    const registers = extractStateRegistersFromDecl(dataDecl, enumTypeNames, getParams);
     results.push(...registers);
   }
 
   // Also look for net declarations (wire/reg)
   const netDecls = findNodesOfType(root, 'net_declaration');
   for (const netDecl of netDecls) {
-    const registers = extractStateRegistersFromDecl(netDecl, enumTypeNames);
+    const registers = extractStateRegistersFromDecl(netDecl, enumTypeNames, getParams);
     results.push(...registers);
   }
 
@@ -50,7 +63,8 @@ export function detectStateRegisters(
  */
 function extractStateRegistersFromDecl(
   declNode: SyntaxNode,
-  enumTypeNames: Set<string>
+  enumTypeNames: Set<string>,
+  getParams: () => Map<string, number>
 ): StateRegister[] {
   const results: StateRegister[] = [];
   const text = getNodeText(declNode);
@@ -67,6 +81,7 @@ function extractStateRegistersFromDecl(
 
   // Extract variable names from the declaration
   const varNames = extractVariableNames(declNode, text);
+  const arraySizes = extractArraySizes(declNode);
 
   for (const varName of varNames) {
     // Skip excluded patterns
@@ -83,6 +98,8 @@ function extractStateRegistersFromDecl(
         typeName,
         isNextState: isNextStateVarName(varName),
         line,
+        arraySize: arraySizes.get(varName),
+        width: typeName === undefined ? getPackedWidth(declNode, getParams) : undefined,
       });
     }
   }
@@ -96,9 +113,10 @@ function extractStateRegistersFromDecl(
 function extractVariableNames(declNode: SyntaxNode, text: string): string[] {
   const names: string[] = [];
 
-  // Try to find variable_decl_assignment nodes
+  // Try to find variable_decl_assignment nodes (net_decl_assignment when
+  // a user type is parsed as a net type: state_t state_q [4];)
   walkTree(declNode, (node) => {
-    if (node.type === 'variable_decl_assignment') {
+    if (node.type === 'variable_decl_assignment' || node.type === 'net_decl_assignment') {
       // Get the identifier from this assignment
       const identNode = node.children.find(
         (c: SyntaxNode) => c.type === 'simple_identifier' || c.type === 'identifier'
@@ -132,6 +150,74 @@ function extractVariableNames(declNode: SyntaxNode, text: string): string[] {
   return names;
 }
 
+/**
+ * Get the bit width of an untyped declaration from its packed dimension.
+ *
+ * Patterns we handle:
+ * - reg [1:0] state;             (2)
+ * - logic [W-1:0] state;         (W, from parameters)
+ *
+ * @returns undefined without a single packed dimension, or when a bound
+ *          can't be evaluated
+ */
+function getPackedWidth(declNode: SyntaxNode, getParams: () => Map<string, number>): number | undefined {
+  const dimensions = findNodesOfType(declNode, 'packed_dimension');
+  const range = dimensions.length === 1 ? getNodeText(dimensions[0]).match(/^\[\s*(.+?)\s*:\s*(.+?)\s*\]$/) : null;
+  if (!range) {
+    return undefined;
+  }
+
+  const high = evaluateConstant(range[1], getParams());
+  const low = evaluateConstant(range[2], getParams());
+  return high !== null && low !== null ? Math.abs(high - low) + 1 : undefined;
+}
+
+/**
+ * Get the element count of each variable declared with an unpacked
+ * dimension.
+ *
+ * Patterns we handle:
+ * - state_q [NUM_CH]         ("NUM_CH")
+ * - state_q [0:NUM_CH-1]     ("NUM_CH")
+ * - state_q [3:0]            ("4")
+ */
+function extractArraySizes(declNode: SyntaxNode): Map<string, string> {
+  const sizes = new Map<string, string>();
+
+  walkTree(declNode, (node) => {
+    if (node.type !== 'variable_decl_assignment' && node.type !== 'net_decl_assignment') {
+      return;
+    }
+    const identNode = getChildOfType(node, 'simple_identifier');
+    const dimension = getChildOfType(node, 'unpacked_dimension');
+    if (identNode && dimension) {
+      const inner = getNodeText(dimension).trim().slice(1, -1).trim();
+      sizes.set(getNodeText(identNode).trim(), getDimensionSize(inner));
+    }
+  });
+
+  return sizes;
+}
+
+/**
+ * Turn the inside of an unpacked dimension into an element count.
+ */
+function getDimensionSize(dimension: string): string {
+  const range = dimension.match(/^(.+?)\s*:\s*(.+)$/);
+  if (!range) {
+    return dimension; // [N]
+  }
+
+  const [low, high] = [range[1].trim(), range[2].trim()];
+  if (/^\d+$/.test(low) && /^\d+$/.test(high)) {
+    return String(Math.abs(parseInt(high, 10) - parseInt(low, 10)) + 1);
+  }
+  // [0:N-1] and [N-1:0]
+  const bound = low === '0' ? high : high === '0' ? low : null;
+  const minusOne = bound ? bound.match(/^(.+?)\s*-\s*1$/) : null;
+  return minusOne ? minusOne[1].trim() : `${high} - ${low} + 1`;
+}
+
 /**
  * Match state registers to form state/next_state pairs.
  */
@@ -153,8 +239,12 @@ export function matchStateRegisterPairs(
 
   // For each type group, try to pair state with next_state
   for (const [_typeName, regs] of byType) {
-    const stateRegs = regs.filter((r) => !r.isNextState);
-    const nextStateRegs = regs.filter((r) => r.isNextState);
+    // tx_next_state beside tx_state: named after the register it feeds
+    const pairedByName = new Set(
+      regs.filter((r) => regs.some((other) => other !== r && areMatchingStateNames(other.varName, r.varName)))
+    );
+    const stateRegs = regs.filter((r) => !r.isNextState && !pairedByName.has(r));
+    const nextStateRegs = regs.filter((r) => r.isNextState || pairedByName.has(r));
 
     for (const stateReg of stateRegs) {
       // Try to find matching next_state
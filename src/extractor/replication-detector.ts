@@ -0,0 +1,124 @@
+import type { SyntaxNode } from '../parser/ast-walker.js';
+import { getChildOfType, getNodeText } from '../parser/ast-walker.js';
+import { buildParameterTable, evaluateConstant } from './const-eval.js';
+import type { FSMInstances, StateRegister } from '../types.js';
+
+/**
+ * Detect an FSM that is written once but replicated per channel.
+ *
+ * Patterns we handle:
+ * - state_t state_q [NUM_CH];            (state register array)
+ * - for (int i = 0; i < NUM_CH; i++) case (state_q[i]) ...
+ *                                        (loop inside the always block)
+ * - foreach (state_q[i]) case (state_q[i]) ...
+ * - for (genvar i = 0; i < NUM_CH; i++) begin : g_ch ... end
+ *                                        (generate loop around the FSM)
+ *
+ * The array size is the instance count when the register is an array;
+ * otherwise the count comes from the bounds of the enclosing loop.
+ *
+ * @param dispatchNode - The state case (or if chain) of the FSM
+ * @returns The replication, or undefined for a single FSM
+ */
+export function detectReplication(
+  pair: { state: StateRegister; nextState?: StateRegister },
+  dispatchNode: SyntaxNode,
+  root: SyntaxNode
+): FSMInstances | undefined {
+  const loop = findEnclosingLoop(dispatchNode);
+  const arraySize = pair.state.arraySize ?? pair.nextState?.arraySize;
+
+  const countExpr = arraySize ?? loop?.countExpr;
+  if (!countExpr) {
+    return undefined;
+  }
+
+  const instances: FSMInstances = { countExpr };
+  const count = evaluateConstant(countExpr, buildParameterTable(root));
+  if (count !== null) {
+    instances.count = count;
+  }
+  if (loop?.indexVar) {
+    instances.indexVar = loop.indexVar;
+  }
+  if (loop?.scope) {
+    instances.scope = loop.scope;
+  }
+  return instances;
+}
+
+/**
+ * Find the innermost for/foreach loop or generate loop around a node.
+ */
+function findEnclosingLoop(
+  node: SyntaxNode
+): { indexVar?: string; countExpr?: string; scope?: string } | null {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current.type === 'loop_generate_construct') {
+      const block = getChildOfType(current, 'generate_block');
+      // begin : g_ch
+      const label = block && block.children[1]?.type === ':' ? getChildOfType(block, 'simple_identifier') : null;
+      return {
+        ...parseLoopHeader(getNodeText(current)),
+        scope: label ? getNodeText(label).trim() : undefined,
+      };
+    }
+
+    if (current.type === 'loop_statement') {
+      const text = getNodeText(current);
+      const foreach = text.match(/^\s*foreach\s*\(\s*\w+\s*\[\s*(\w+)\s*\]\s*\)/);
+      if (foreach) {
+        return { indexVar: foreach[1] };
+      }
+      if (/^\s*for\b/.test(text)) {
+        return parseLoopHeader(text);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the index variable and iteration count of a for loop header.
+ *
+ * Patterns we handle:
+ * - for (i = 0; i < N; i++)        ("N")
+ * - for (int i = 0; i <= N; i++)   ("N + 1")
+ * - for (i = 0; i <= N - 1; i++)   ("N")
+ * - for (i = N - 1; i >= 0; i--)   ("N")
+ */
+function parseLoopHeader(text: string): { indexVar?: string; countExpr?: string } {
+  const header = text.match(
+    /^\s*for\s*\(\s*(?:genvar\s+|int\s+(?:unsigned\s+)?|integer\s+)?(\w+)\s*=\s*([^;]+?)\s*;\s*([^;]+?)\s*;/
+  );
+  if (!header) {
+    return {};
+  }
+
+  const [, indexVar, init, condition] = header;
+  const bound = condition.match(new RegExp(`^${indexVar}\\s*(<=|<|!=|>=|>)\\s*(.+)$`));
+  if (!bound) {
+    return { indexVar };
+  }
+
+  const [, operator, limit] = bound;
+  if (operator === '<' || operator === '!=') {
+    return { indexVar, countExpr: init === '0' ? limit : `${limit} - ${init}` };
+  }
+  if (operator === '<=') {
+    return { indexVar, countExpr: plusOne(init === '0' ? limit : `${limit} - ${init}`) };
+  }
+
+  // Counting down to the limit
+  const span = limit === '0' ? init : `${init} - ${limit}`;
+  return { indexVar, countExpr: operator === '>=' ? plusOne(span) : span };
+}
+
+/**
+ * Add one to a count expression: "N - 1" becomes "N".
+ */
+function plusOne(expr: string): string {
+  const minusOne = expr.match(/^(.+?)\s*-\s*1$/);
+  return minusOne ? minusOne[1] : `${expr} + 1`;
+}
@@ -0,0 +1,73 @@
+import type { FSM, FSMState, FSMTransition } from '../types.js';
+
+/**
+ * Get the stable ID of a state: its name and declaration location.
+ *
+ * IDLE@3, or IDLE@states.svh:3 when declared in an `include'd file.
+ */
+export function getStateId(state: FSMState): string {
+  return `${state.name}@${formatLocation(state)}`;
+}
+
+/**
+ * Get the stable ID of a transition: its states, the location of the
+ * next-state assignment and a hash of the guard.
+ *
+ * IDLE->RUN@14, or IDLE->RUN@18#9c1f02ab when guarded. Two guarded
+ * branches between the same states differ in location or guard, so the
+ * outputs of one branch never land on the other.
+ */
+export function getTransitionId(transition: FSMTransition): string {
+  const id = `${transition.from}->${transition.to}@${formatLocation(transition)}`;
+  return transition.rawCondition ? `${id}#${hashText(transition.rawCondition)}` : id;
+}
+
+/**
+ * Give every transition its stable ID.
+ *
+ * Copies of a transition (same states, location and guard) are numbered
+ * in order: IDLE->RUN@14~2.
+ */
+export function assignTransitionIds(transitions: FSMTransition[]): void {
+  const seen = new Map<string, number>();
+
+  for (const transition of transitions) {
+    const id = getTransitionId(transition);
+    const count = (seen.get(id) ?? 0) + 1;
+    seen.set(id, count);
+    transition.id = count > 1 ? `${id}~${count}` : id;
+  }
+}
+
+/**
+ * Give every state and transition of an FSM its stable ID.
+ *
+ * IDs follow the source locations, so assign them again after lines are
+ * mapped back to the original files.
+ */
+export function assignStableIds(fsm: FSM): void {
+  for (const state of fsm.states) {
+    state.id = getStateId(state);
+  }
+  assignTransitionIds(fsm.transitions);
+}
+
+/**
+ * Format a location as line, or file:line for `include'd files.
+ */
+function formatLocation(location: { line: number; file?: string }): string {
+  return location.file ? `${location.file}:${location.line}` : `${location.line}`;
+}
+
+/**
+ * Hash a guard to 8 hex digits (32-bit FNV-1a), ignoring whitespace
+ * differences.
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (const ch of text.replace(/\s+/g, ' ').trim()) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
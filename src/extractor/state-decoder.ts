@@ -0,0 +1,441 @@
+import type { SyntaxNode } from '../parser/ast-walker.js';
+import { findNodesOfType, getChildOfType, getNodeText, getNodeLine, unwrapParentheses } from '../parser/ast-walker.js';
+import { buildStatement, collectAssignments, isSameCondition, joinGuards, negateCondition, splitConjuncts } from '../parser/statement-ir.js';
+import { resolveStateValue } from './case-labels.js';
+import { isResetGuard, simplifyCondition } from './transition-builder.js';
+import { extractIdentifiers } from './output-extractor.js';
+import type { extractOutputsFromCaseStatement } from './output-extractor.js';
+import { analyzeAlwaysBlock, findStateCaseStatements, isClockedBlock } from './always-analyzer.js';
+import type { FSMOutput, FSMTransition, OutputKind } from '../types.js';
+
+const EQUALITY_OPERATORS = new Set(['==', '!=', '===', '!==']);
+const AND_OPERATORS = new Set(['&&', '&']);
+const OR_OPERATORS = new Set(['||', '|']);
+
+/**
+ * Value of a boolean expression in one state: a constant, or what is
+ * left once the state comparisons are decided (the input part).
+ */
+type DecodedCondition = { value: 0 | 1 } | { text: string };
+
+/**
+ * Settings shared while decoding the expressions of one FSM.
+ */
+interface DecodeContext {
+  stateVarName: string;
+  stateNames: Set<string>;
+  encodings: Map<string, number>;
+}
+
+/**
+ * Extract outputs that are decoded from the state register outside the
+ * state case.
+ *
+ * Patterns we handle:
+ * - assign busy = (state == RUN) || (state == WAIT);
+ * - assign done = state inside {DONE, ERR};
+ * - assign mode = (state == RUN) ? 2'd1 : (state == DONE) ? 2'd2 : 2'd0;
+ * - assign ack = (state == IDLE) && go;   (input-guarded: Mealy)
+ * - always_comb ready = state != RUN;     (unguarded combinational assignment)
+ *
+ * The expression is evaluated once per state with every state comparison
+ * decided. A constant result is a Moore output of that state; a result
+ * that still reads inputs is a Mealy output of the state, guarded by them.
+ * Expressions that use the state any other way are skipped.
+ */
+export function extractDecodedOutputs(
+  root: SyntaxNode,
+  stateVarName: string,
+  nextStateVarName: string,
+  stateNames: Set<string>,
+  encodings: Map<string, number> = new Map()
+): ReturnType<typeof extractOutputsFromCaseStatement> {
+  const mooreOutputsByState = new Map<string, FSMOutput[]>();
+  const mealyOutputsByState = new Map<string, FSMOutput[]>();
+  const outputSignals = new Set<string>();
+  const inputSignals = new Set<string>();
+  const context: DecodeContext = { stateVarName, stateNames, encodings };
+
+  for (const { target, valueNode, line } of findCombinationalAssignments(root, stateVarName, nextStateVarName)) {
+    if (!readsVariable(getNodeText(valueNode), stateVarName)) {
+      continue;
+    }
+
+    const perState = Array.from(stateNames).map((state) => ({ state, arms: decodeValue(valueNode, state, context) }));
+    if (perState.some(({ arms }) => arms === null)) {
+      continue;
+    }
+
+    for (const { state, arms } of perState) {
+      for (const { value, guards } of arms!) {
+        const output: FSMOutput = { signal: target, value, line };
+        if (guards.length === 0) {
+          mooreOutputsByState.set(state, [...(mooreOutputsByState.get(state) || []), { ...output, kind: 'moore' }]);
+          continue;
+        }
+        const condition = simplifyCondition(joinGuards(guards));
+        mealyOutputsByState.set(state, [
+          ...(mealyOutputsByState.get(state) || []),
+          { ...output, condition, kind: 'mealy' },
+        ]);
+        for (const name of extractIdentifiers(condition)) {
+          inputSignals.add(name);
+        }
+      }
+    }
+    outputSignals.add(target);
+  }
+
+  return {
+    mooreOutputsByState,
+    mealyOutputsByTransition: new Map(),
+    mealyOutputsByState,
+    outputSignals: Array.from(outputSignals),
+    inputSignals: Array.from(inputSignals),
+  };
+}
+
+/**
+ * Extract output flops loaded from state comparisons outside a state case.
+ *
+ * Patterns we handle:
+ * - if (state == IDLE && start) busy_q <= 1'b1;
+ *                              (registered on the IDLE transition taken on start)
+ * - if (state == RUN) begin if (done) irq_q <= 1'b1; end
+ * - busy_q <= (next_state == RUN);   (registered from next_state)
+ * - if (next_state != IDLE) active_q <= 1'b1;
+ *
+ * Guards are split at && into state comparisons and input conditions. A
+ * flop loaded from the current state under input conditions goes on the
+ * transition out of that state with the same condition, or on the state
+ * (with the condition) when no transition matches. A flop loaded from
+ * next_state belongs to the state entered. Reset values are skipped, and
+ * clocked blocks with a state case or if chain are left to
+ * extractOutputsFromCaseStatement.
+ *
+ * @param transitions - Transitions of the FSM with their IDs, to match
+ *                      input conditions
+ */
+export function extractRegisteredOutputs(
+  root: SyntaxNode,
+  stateVarName: string,
+  nextStateVarName: string,
+  stateNames: Set<string>,
+  encodings: Map<string, number>,
+  transitions: FSMTransition[]
+): ReturnType<typeof extractOutputsFromCaseStatement> {
+  const mooreOutputsByState = new Map<string, FSMOutput[]>();
+  const mealyOutputsByTransition = new Map<string, FSMOutput[]>();
+  const mealyOutputsByState = new Map<string, FSMOutput[]>();
+  const outputSignals = new Set<string>();
+  const inputSignals = new Set<string>();
+  const stateVars = new Set([stateVarName, nextStateVarName]);
+  const append = (map: Map<string, FSMOutput[]>, key: string, output: FSMOutput) =>
+    map.set(key, [...(map.get(key) || []), output]);
+
+  for (const alwaysNode of findNodesOfType(root, 'always_construct')) {
+    if (!isClockedBlock(analyzeAlwaysBlock(alwaysNode)) || findStateCaseStatements(alwaysNode, stateVars).length > 0) {
+      continue;
+    }
+    const assignments = collectAssignments(buildStatement(alwaysNode));
+    if (assignments.some(({ assign }) => stateVars.has(assign.target.replace(/\[.*\]$/, '')))) {
+      continue; // State register or one-block FSM
+    }
+    // if (!rst_n) q <= 1'b0; else ...: the first reset test is the reset
+    // branch, the else branch sees it negated
+    const resetGuard = assignments.map(({ guards }) => guards[0]).find((guard) => guard && isResetGuard(guard));
+
+    for (const { assign, guards } of assignments) {
+      if (!assign.valueNode || (resetGuard !== undefined && guards[0] === resetGuard)) {
+        continue;
+      }
+
+      const inputGuards = guards.filter((guard) => !isResetGuard(guard));
+      const text = [...inputGuards, assign.value].join(' ');
+      const varName = nextStateVarName !== stateVarName && readsVariable(text, nextStateVarName)
+        ? nextStateVarName
+        : readsVariable(text, stateVarName) ? stateVarName : null;
+      if (!varName) {
+        continue;
+      }
+      const kind: OutputKind = varName === stateVarName ? 'registered-transition' : 'registered-next-state';
+      const perState = decodeRegisteredValue(assign.valueNode, inputGuards, { stateVarName: varName, stateNames, encodings });
+      if (!perState) {
+        continue;
+      }
+
+      for (const { state, arms } of perState) {
+        for (const { value, guards: armGuards } of arms) {
+          const output: FSMOutput = { signal: assign.target, value, line: assign.line, kind };
+          if (armGuards.length === 0) {
+            append(mooreOutputsByState, state, output);
+            continue;
+          }
+
+          const condition = simplifyCondition(joinGuards(armGuards));
+          const taken = kind === 'registered-transition'
+            ? transitions.filter(
+                (t) => t.id && t.from === state && t.rawCondition !== undefined && isSameCondition(t.rawCondition, armGuards)
+              )
+            : [];
+          for (const transition of taken) {
+            append(mealyOutputsByTransition, transition.id!, output);
+          }
+          if (taken.length === 0) {
+            append(mealyOutputsByState, state, { ...output, condition });
+          }
+          for (const name of extractIdentifiers(condition)) {
+            inputSignals.add(name);
+          }
+        }
+      }
+      outputSignals.add(assign.target);
+    }
+  }
+
+  return {
+    mooreOutputsByState,
+    mealyOutputsByTransition,
+    mealyOutputsByState,
+    outputSignals: Array.from(outputSignals),
+    inputSignals: Array.from(inputSignals),
+  };
+}
+
+/**
+ * Decode a flop's guarded value in every state.
+ *
+ * @returns The value arms of each state whose comparisons the guards
+ *          pass, or null if a guard or the value can't be decided
+ */
+function decodeRegisteredValue(
+  valueNode: SyntaxNode,
+  guards: string[],
+  context: DecodeContext
+): Array<{ state: string; arms: Array<{ value: string; guards: string[] }> }> | null {
+  const perState: Array<{ state: string; arms: Array<{ value: string; guards: string[] }> }> = [];
+
+  for (const state of context.stateNames) {
+    const residual = decodeGuards(guards, state, context);
+    if (residual === null) {
+      return null;
+    }
+    if (residual === false) {
+      continue; // Not loaded in this state
+    }
+    const arms = decodeValue(valueNode, state, context);
+    if (!arms) {
+      return null;
+    }
+    perState.push({ state, arms: arms.map((arm) => ({ value: arm.value, guards: [...residual, ...arm.guards] })) });
+  }
+
+  return perState;
+}
+
+/**
+ * Decide the state comparisons among the && terms of guard texts.
+ *
+ * @returns The input terms left, false if a comparison fails in this
+ *          state, or null if a term uses the state another way
+ */
+function decodeGuards(guards: string[], state: string, context: DecodeContext): string[] | false | null {
+  const residual: string[] = [];
+
+  for (const term of guards.flatMap(splitConjuncts)) {
+    if (!readsVariable(term, context.stateVarName)) {
+      residual.push(term);
+      continue;
+    }
+    const comparison = term.match(/^(.+?)\s*(===|!==|==|!=)\s*(.+)$/);
+    if (!comparison) {
+      return null;
+    }
+    const [, left, operator, right] = comparison;
+    const other = left.trim() === context.stateVarName ? right : right.trim() === context.stateVarName ? left : null;
+    const compared = other !== null ? resolveStateValue(other.trim(), context.stateNames, context.encodings) : null;
+    if (!compared) {
+      return null;
+    }
+    if ((compared === state) !== (operator === '==' || operator === '===')) {
+      return false;
+    }
+  }
+
+  return residual;
+}
+
+/**
+ * Find continuous assignments and the unguarded assignments of
+ * combinational always blocks, except those to the state variables.
+ */
+function findCombinationalAssignments(
+  root: SyntaxNode,
+  stateVarName: string,
+  nextStateVarName: string
+): Array<{ target: string; valueNode: SyntaxNode; line: number }> {
+  const results: Array<{ target: string; valueNode: SyntaxNode; line: number }> = [];
+  const stateVars = new Set([stateVarName, nextStateVarName]);
+
+  for (const assignment of findNodesOfType(root, 'net_assignment')) {
+    const lvalue = getChildOfType(assignment, 'net_lvalue');
+    const valueNode = getChildOfType(assignment, 'expression');
+    if (lvalue && valueNode && !stateVars.has(getNodeText(lvalue).trim())) {
+      results.push({ target: getNodeText(lvalue).trim(), valueNode, line: getNodeLine(assignment) });
+    }
+  }
+
+  for (const alwaysNode of findNodesOfType(root, 'always_construct')) {
+    if (!/^\s*(?:always_comb\b|always\s*@\s*(?:\*|\(\s*\*\s*\)))/.test(getNodeText(alwaysNode))) {
+      continue;
+    }
+    for (const { assign, guards } of collectAssignments(buildStatement(alwaysNode))) {
+      if (guards.length === 0 && assign.valueNode && !stateVars.has(assign.target.replace(/\[.*\]$/, ''))) {
+        results.push({ target: assign.target, valueNode: assign.valueNode, line: assign.line });
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Decode the value an expression takes in one state.
+ *
+ * @returns The possible values with the input guards selecting them
+ *          (one unguarded value when the state decides it), or null if
+ *          the expression uses the state in a way we can't decide
+ */
+function decodeValue(
+  node: SyntaxNode,
+  state: string,
+  context: DecodeContext
+): Array<{ value: string; guards: string[] }> | null {
+  const inner = unwrapParentheses(node);
+  const only = inner.type === 'expression' && inner.childCount === 1 ? inner.children[0] : inner;
+
+  if (only.type === 'conditional_expression') {
+    const [conditionNode, thenNode, elseNode] = only.namedChildren;
+    const condition = conditionNode && thenNode && elseNode ? decodeCondition(conditionNode, state, context) : null;
+    if (!condition) {
+      return null;
+    }
+    if ('value' in condition) {
+      return decodeValue(condition.value ? thenNode : elseNode, state, context);
+    }
+
+    const thenArms = decodeValue(thenNode, state, context);
+    const elseArms = decodeValue(elseNode, state, context);
+    if (!thenArms || !elseArms) {
+      return null;
+    }
+    const negated = negateCondition(condition.text);
+    return [
+      ...thenArms.map((arm) => ({ value: arm.value, guards: [condition.text, ...arm.guards] })),
+      ...elseArms.map((arm) => ({ value: arm.value, guards: [negated, ...arm.guards] })),
+    ];
+  }
+
+  const text = getNodeText(inner).trim();
+  if (!readsVariable(text, context.stateVarName)) {
+    return [{ value: text, guards: [] }];
+  }
+
+  const decoded = decodeCondition(inner, state, context);
+  if (!decoded) {
+    return null;
+  }
+  return 'value' in decoded
+    ? [{ value: `1'b${decoded.value}`, guards: [] }]
+    : [{ value: "1'b1", guards: [decoded.text] }];
+}
+
+/**
+ * Decide the state comparisons of a boolean expression for one state.
+ */
+function decodeCondition(node: SyntaxNode, state: string, context: DecodeContext): DecodedCondition | null {
+  const inner = unwrapParentheses(node);
+  const text = getNodeText(inner).trim();
+  if (!readsVariable(text, context.stateVarName)) {
+    return { text };
+  }
+
+  const only = inner.type === 'expression' && inner.childCount === 1 ? inner.children[0] : inner;
+  if (only.type === 'inside_expression') {
+    return decodeInside(only, state, context);
+  }
+
+  const children = inner.children;
+  // !(state == IDLE), ~busy_q
+  if (inner.type === 'expression' && children.length === 2 && children[0].type === 'unary_operator') {
+    const operator = getNodeText(children[0]).trim();
+    const operand = operator === '!' || operator === '~' ? decodeCondition(children[1], state, context) : null;
+    if (!operand) {
+      return null;
+    }
+    return 'value' in operand ? { value: operand.value ? 0 : 1 } : { text: negateCondition(operand.text) };
+  }
+
+  if (inner.type !== 'expression' || children.length !== 3) {
+    return null;
+  }
+  const operator = children[1].type;
+
+  if (EQUALITY_OPERATORS.has(operator)) {
+    const [left, right] = [getNodeText(children[0]).trim(), getNodeText(children[2]).trim()];
+    const other = left === context.stateVarName ? right : right === context.stateVarName ? left : null;
+    const compared = other !== null ? resolveStateValue(other, context.stateNames, context.encodings) : null;
+    if (!compared) {
+      return null;
+    }
+    const isEqual = operator === '==' || operator === '===';
+    return { value: (compared === state) === isEqual ? 1 : 0 };
+  }
+
+  if (AND_OPERATORS.has(operator) || OR_OPERATORS.has(operator)) {
+    const left = decodeCondition(children[0], state, context);
+    const right = decodeCondition(children[2], state, context);
+    if (!left || !right) {
+      return null;
+    }
+    // The constant decides (0 for AND, 1 for OR), or drops out
+    const decisive = AND_OPERATORS.has(operator) ? 0 : 1;
+    for (const [a, b] of [[left, right], [right, left]]) {
+      if ('value' in a) {
+        return a.value === decisive ? a : b;
+      }
+    }
+    const [a, b] = [(left as { text: string }).text, (right as { text: string }).text];
+    return { text: AND_OPERATORS.has(operator) ? joinGuards([a, b]) : `${a} || ${b}` };
+  }
+
+  return null;
+}
+
+/**
+ * Decide state inside {DONE, ERR} for one state.
+ */
+function decodeInside(node: SyntaxNode, state: string, context: DecodeContext): DecodedCondition | null {
+  const subject = node.namedChildren[0];
+  const ranges = findNodesOfType(node, 'value_range');
+  if (!subject || getNodeText(subject).trim() !== context.stateVarName || ranges.length === 0) {
+    return null;
+  }
+
+  const members: string[] = [];
+  for (const range of ranges) {
+    const member = resolveStateValue(getNodeText(range).trim(), context.stateNames, context.encodings);
+    if (!member) {
+      return null; // [LO:HI] ranges and non-state values
+    }
+    members.push(member);
+  }
+  return { value: members.includes(state) ? 1 : 0 };
+}
+
+/**
+ * Check if an expression reads a variable.
+ */
+function readsVariable(text: string, varName: string): boolean {
+  return new RegExp(`(?<![\\w$.:'])${varName}\\b`).test(text);
+}
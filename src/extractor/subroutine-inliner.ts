@@ -0,0 +1,358 @@
+import type { SyntaxNode } from '../parser/ast-walker.js';
+import { findNodesOfType, getChildOfType, getNodeText, getNodeLine } from '../parser/ast-walker.js';
+import { joinGuards, splitConditionalValue } from '../parser/statement-ir.js';
+import type { Statement, AssignStatement } from '../parser/statement-ir.js';
+
+const SUBROUTINE_TYPES = new Set(['function_declaration', 'task_declaration']);
+
+/**
+ * A function or task declared in a module.
+ */
+interface Subroutine {
+  kind: 'function' | 'task';
+  name: string;
+  ports: Array<{ name: string; direction: 'input' | 'output' | 'inout' | 'ref' }>;
+  node: SyntaxNode;
+}
+
+/**
+ * How one call binds a subroutine to the caller's variables.
+ */
+export interface SubroutineBinding {
+  renames: Map<string, string>; // Formal argument -> actual argument
+  result?: string;              // Variable a function result is assigned to
+  functionName?: string;        // Name assigned to as the function result
+  line: number;                 // Line of the call
+}
+
+/**
+ * Find the state dispatch statements inside functions and tasks called
+ * from an always block.
+ *
+ * Patterns we handle:
+ * - next_state = next_st(state, go);     (function with case (cur))
+ * - compute(state, next_state);          (task with an output argument)
+ * - next_st(.cur(state), .go(go))        (named arguments)
+ *
+ * @param findDispatches - Finds the dispatch statements of a subroutine
+ *                         body given the formals bound to state variables
+ */
+export function findCalledDispatches(
+  alwaysNode: SyntaxNode,
+  stateVarNames: Set<string>,
+  findDispatches: (body: SyntaxNode, stateFormals: Set<string>) => SyntaxNode[]
+): SyntaxNode[] {
+  const subroutines = findSubroutines(alwaysNode);
+  const results: SyntaxNode[] = [];
+
+  for (const call of findNodesOfType(alwaysNode, 'tf_call')) {
+    const subroutine = subroutines.get(getCallName(call));
+    const binding = subroutine ? bindCall(call, subroutine) : null;
+    if (!subroutine || !binding) {
+      continue;
+    }
+
+    const stateFormals = new Set(
+      Array.from(binding.renames).filter(([, actual]) => stateVarNames.has(actual)).map(([formal]) => formal)
+    );
+    if (stateFormals.size > 0) {
+      results.push(...findDispatches(subroutine.node, stateFormals));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Get the binding of the subroutine a node is declared in, from the call
+ * inside an always block of the same module that passes one of the FSM's
+ * state variables (or, failing that, the first call).
+ *
+ * A function shared by two FSMs is called once per FSM with different
+ * arguments, so each FSM inlines it with the renames of its own call.
+ *
+ * @param stateVarNames - State and next-state variables of the FSM
+ * @returns The binding, or null if the node isn't inside a called subroutine
+ */
+export function getSubroutineBinding(
+  node: SyntaxNode,
+  stateVarNames: Set<string> = new Set()
+): SubroutineBinding | null {
+  let declaration: SyntaxNode | null = node;
+  while (declaration && !SUBROUTINE_TYPES.has(declaration.type)) {
+    declaration = declaration.parent;
+  }
+  if (!declaration) {
+    return null;
+  }
+
+  const subroutine = readSubroutine(declaration);
+  if (!subroutine) {
+    return null;
+  }
+
+  let first: SubroutineBinding | null = null;
+  for (const alwaysNode of findNodesOfType(getScopeRoot(declaration), 'always_construct')) {
+    for (const call of findNodesOfType(alwaysNode, 'tf_call')) {
+      const binding = getCallName(call) === subroutine.name ? bindCall(call, subroutine) : null;
+      if (binding && isBoundTo(binding, stateVarNames)) {
+        return binding;
+      }
+      first ??= binding;
+    }
+  }
+
+  return first;
+}
+
+/**
+ * Get the variables a call writes through output/inout task arguments.
+ */
+export function getCallOutputs(call: SyntaxNode): string[] {
+  const subroutine = findSubroutines(call).get(getCallName(call));
+  if (!subroutine) {
+    return [];
+  }
+
+  const actuals = getCallArguments(call, subroutine);
+  return subroutine.ports
+    .filter((port) => port.direction === 'output' || port.direction === 'inout')
+    .map((port) => actuals.get(port.name))
+    .filter((actual): actual is string => !!actual && /^\w+$/.test(actual));
+}
+
+/**
+ * Inline a subroutine statement at its call site.
+ *
+ * Formal arguments are renamed to the actual arguments, and assignments
+ * to the function name or "return x;" become assignments to the variable
+ * the call result goes to. Conditional values are split into if/else
+ * branches so the renamed conditions show up in the guards. A case inside
+ * the subroutine keeps its default item, which takes the states no label
+ * covers (default: return IDLE;).
+ */
+export function inlineStatement(stmt: Statement, binding: SubroutineBinding): Statement {
+  const rename = createRenamer(binding.renames);
+
+  switch (stmt.kind) {
+    case 'block':
+      return { ...stmt, statements: stmt.statements.map((s) => inlineStatement(s, binding)) };
+    case 'if':
+      return {
+        ...stmt,
+        condition: rename(stmt.condition),
+        then: inlineStatement(stmt.then, binding),
+        else: stmt.else ? inlineStatement(stmt.else, binding) : undefined,
+      };
+    case 'case':
+      return {
+        ...stmt,
+        expression: rename(stmt.expression),
+        items: stmt.items.map((item) => ({
+          ...item,
+          labels: item.labels.map(rename),
+          body: inlineStatement(item.body, binding),
+        })),
+      };
+    case 'assign': {
+      const target = stmt.target === binding.functionName && binding.result ? binding.result : rename(stmt.target);
+      return inlineAssignment(stmt, target, stmt.value, stmt.valueNode, rename);
+    }
+    case 'return':
+      if (!binding.result || !stmt.value) {
+        return stmt;
+      }
+      return inlineAssignment(
+        { kind: 'assign', target: binding.result, operator: '=', value: stmt.value, valueNode: stmt.valueNode,
+          isBlocking: true, line: stmt.line, node: stmt.node },
+        binding.result,
+        stmt.value,
+        stmt.valueNode,
+        rename
+      );
+    case 'other':
+      return stmt;
+  }
+}
+
+/**
+ * Build the inlined form of an assignment, splitting c ? A : B values.
+ */
+function inlineAssignment(
+  stmt: AssignStatement,
+  target: string,
+  value: string,
+  valueNode: SyntaxNode | null,
+  rename: (text: string) => string
+): Statement {
+  const arms = splitConditionalValue(valueNode, value);
+  if (arms.length === 1) {
+    return { ...stmt, target, value: rename(arms[0].value), valueNode: null };
+  }
+
+  return {
+    kind: 'block',
+    statements: arms.map((arm) => ({
+      kind: 'if' as const,
+      condition: rename(joinGuards(arm.guards)),
+      then: { ...stmt, target, value: rename(arm.value), valueNode: null },
+      line: stmt.line,
+      node: stmt.node,
+    })),
+    line: stmt.line,
+    node: stmt.node,
+  };
+}
+
+/**
+ * Create a function that renames whole identifiers in an expression.
+ */
+function createRenamer(renames: Map<string, string>): (text: string) => string {
+  if (renames.size === 0) {
+    return (text) => text;
+  }
+  const names = Array.from(renames.keys()).map((n) => n.replace(/[$]/g, '\\$&'));
+  const pattern = new RegExp(`(?<![\\w.$:])(${names.join('|')})(?![\\w$])`, 'g');
+  return (text) => text.replace(pattern, (name) => renames.get(name) ?? name);
+}
+
+/**
+ * Find the functions and tasks of the module a node belongs to.
+ */
+function findSubroutines(node: SyntaxNode): Map<string, Subroutine> {
+  const subroutines = new Map<string, Subroutine>();
+  const root = getScopeRoot(node);
+
+  for (const type of SUBROUTINE_TYPES) {
+    for (const declaration of findNodesOfType(root, type)) {
+      const subroutine = readSubroutine(declaration);
+      if (subroutine) {
+        subroutines.set(subroutine.name, subroutine);
+      }
+    }
+  }
+
+  return subroutines;
+}
+
+/**
+ * Get the module a node belongs to (or the tree root for snippets).
+ */
+function getScopeRoot(node: SyntaxNode): SyntaxNode {
+  let current = node;
+  while (current.parent && current.type !== 'module_declaration') {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * Read the name and ANSI-style ports of a function or task declaration.
+ *
+ * A port without a direction takes the previous port's direction (input
+ * for the first one).
+ */
+function readSubroutine(declaration: SyntaxNode): Subroutine | null {
+  const body =
+    getChildOfType(declaration, 'function_body_declaration') ||
+    getChildOfType(declaration, 'task_body_declaration');
+  const nameNode = body ? getChildOfType(body, 'simple_identifier') : null;
+  if (!body || !nameNode) {
+    return null;
+  }
+
+  const ports: Subroutine['ports'] = [];
+  let direction: Subroutine['ports'][number]['direction'] = 'input';
+  const portList = getChildOfType(body, 'tf_port_list');
+
+  for (const item of portList ? findNodesOfType(portList, 'tf_port_item') : []) {
+    const directionNode = getChildOfType(item, 'tf_port_direction');
+    if (directionNode) {
+      const text = getNodeText(directionNode).replace(/\bconst\b/, '').trim();
+      direction = text === 'output' || text === 'inout' || text === 'ref' ? text : 'input';
+    }
+    const portName = getChildOfType(item, 'simple_identifier');
+    if (portName) {
+      ports.push({ name: getNodeText(portName).trim(), direction });
+    }
+  }
+
+  return {
+    kind: declaration.type === 'function_declaration' ? 'function' : 'task',
+    name: getNodeText(nameNode).trim(),
+    ports,
+    node: declaration,
+  };
+}
+
+/**
+ * Get the name a tf_call calls.
+ */
+function getCallName(call: SyntaxNode): string {
+  const name = getChildOfType(call, 'hierarchical_identifier') || getChildOfType(call, 'simple_identifier');
+  return name ? getNodeText(name).trim() : '';
+}
+
+/**
+ * Map each formal argument to the actual argument text of a call.
+ */
+function getCallArguments(call: SyntaxNode, subroutine: Subroutine): Map<string, string> {
+  const actuals = new Map<string, string>();
+  const list = getChildOfType(call, 'list_of_arguments');
+  if (!list) {
+    return actuals;
+  }
+
+  let position = 0;
+  let namedPort: string | null = null;
+  for (const child of list.children) {
+    if (child.type === 'simple_identifier') {
+      namedPort = getNodeText(child).trim(); // .name(expr)
+    } else if (child.type === 'expression') {
+      const port = namedPort ?? subroutine.ports[position]?.name;
+      if (port) {
+        actuals.set(port, getNodeText(child).trim());
+      }
+      if (!namedPort) {
+        position++;
+      }
+      namedPort = null;
+    }
+  }
+
+  return actuals;
+}
+
+/**
+ * Check if a call passes one of the given variables, as an argument or as
+ * the variable its result is assigned to.
+ */
+function isBoundTo(binding: SubroutineBinding, varNames: Set<string>): boolean {
+  const actuals = [...binding.renames.values(), ...(binding.result ? [binding.result] : [])];
+  return actuals.some((actual) => varNames.has(actual.replace(/\[.*\]$/, '')));
+}
+
+/**
+ * Bind a call to its subroutine.
+ */
+function bindCall(call: SyntaxNode, subroutine: Subroutine): SubroutineBinding | null {
+  const renames = getCallArguments(call, subroutine);
+  const binding: SubroutineBinding = { renames, line: getNodeLine(call) };
+
+  if (subroutine.kind === 'function') {
+    // next_state = next_st(...): the call must be the whole right-hand side
+    let assignment: SyntaxNode | null = call.parent;
+    while (assignment && assignment.type !== 'operator_assignment' && assignment.type !== 'nonblocking_assignment') {
+      assignment = assignment.parent;
+    }
+    const lvalue = assignment ? getChildOfType(assignment, 'variable_lvalue') : null;
+    const value = assignment ? getChildOfType(assignment, 'expression') : null;
+    if (!lvalue || !value || getNodeText(value).trim() !== getNodeText(call).trim()) {
+      return null;
+    }
+    binding.result = getNodeText(lvalue).replace(/\s+/g, '');
+    binding.functionName = subroutine.name;
+  }
+
+  return binding;
+}
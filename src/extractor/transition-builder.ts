@@ -1,54 +1,128 @@
 import type { SyntaxNode } from '../parser/ast-walker.js';
-import {
-  walkTree,
-  findNodesOfType,
-  getNodeText,
-  getNodeLine,
-} from '../parser/ast-walker.js';
-import type { FSMTransition, FSMOutput, CaseItem, Assignment, ConditionalBlock } from '../types.js';
+import { stripPackageScope, isResetSignalName } from '../parser/queries.js';
+import { buildStatement, caseBranchGuards, collectAssignments, joinGuards, negateCondition, splitConditionalValue } from '../parser/statement-ir.js';
+import type { Statement, AssignStatement } from '../parser/statement-ir.js';
+import { resolveCaseItemStates, resolveAssignedState } from './case-labels.js';
+import { buildStateDispatch } from './if-chain-detector.js';
+import { getSubroutineBinding, inlineStatement } from './subroutine-inliner.js';
+import type { FSMTransition } from '../types.js';
 
 /**
  * Extract transitions from a case statement on the state variable.
+ *
+ * Each case item body is walked as a statement tree: every assignment to
+ * the next-state variable becomes a transition guarded by the conditions
+ * of the if/else (and nested case) branches around it, at the line of the
+ * assignment itself.
+ *
+ * Patterns we handle:
+ * - IDLE: if (go) next_state = RUN; else if (stop) next_state = DONE;
+ * - RUN: case (opcode) OP_A: next_state = X; default: next_state = Y; endcase
+ *   (guards "opcode == OP_A" and "opcode != OP_A")
+ * - IDLE: if (valid) case (cmd) ... endcase
+ * - IDLE: next_state = go ? RUN : IDLE;
+ * - S1: next_state = state.next(); / state_t'(state + 1);
+ *   (resolved from the source state, see resolveStateValue)
+ * - if (state == IDLE) ... else if (state == RUN) ... (see buildStateDispatch)
+ * - IDLE, WAIT: ... (one set of transitions per state)
+ * - casez/casex/inside wildcard and range labels (see resolveCaseItemStates)
+ * - if (enable) case (state) ... endcase   (enable is added to every guard)
+ * - case (state) ... endcase if (abort) next_state = IDLE;
+ *   (a global transition from every state; it overrides the case, so the
+ *   case transitions get "!abort")
+ * - if (abort) next_state = IDLE; case (state) ... endcase
+ *   (a global transition from every state, taken when none of the state's
+ *   own assignments fire)
+ * - next_state = next_st(state, go); with case (cur) inside the function
+ *   (inlined at the call, see inlineStatement)
+ *
+ * Transitions decided by a priority if/case get FSMTransition.priority in
+ * evaluation order; unique/unique0 branches are exclusive and get none.
+ *
+ * The default item handles the states no label covers, and its transitions
+ * are marked isDefault. The state it always moves to (default: next_state
+ * = IDLE;) is also returned as recoveryState, the state the FSM goes to
+ * from an unused encoding.
  */
 export function extractTransitions(
   caseStmt: SyntaxNode,
   stateVarName: string,
   nextStateVarName: string,
   stateNames: Set<string>,
-  sourceBlock: 'always_ff' | 'always_comb' | 'always'
-): { transitions: FSMTransition[]; hasDefaultAssignment: boolean } {
+  sourceBlock: 'always_ff' | 'always_comb' | 'always',
+  encodings: Map<string, number> = new Map()
+): { transitions: FSMTransition[]; hasDefaultAssignment: boolean; recoveryState?: string } {
   const transitions: FSMTransition[] = [];
-  let hasDefaultAssignment = false;
+  const context = { stateVarName, nextStateVarName, stateNames, sourceBlock, encodings };
+
+  // Assignments around the case: defaults before it, overrides after it
+  const surrounding = findSurroundingAssignments(caseStmt, stateVarName, nextStateVarName);
+  const enclosing = surrounding.enclosingGuards;
 
-  // Check for default assignment before case statement
   // Pattern: next_state = state; (at the beginning of always_comb)
-  const parent = caseStmt.parent;
-  if (parent) {
-    const parentText = getNodeText(parent);
-    const defaultPattern = new RegExp(`${nextStateVarName}\\s*=\\s*${stateVarName}\\s*;`);
-    if (defaultPattern.test(parentText)) {
-      hasDefaultAssignment = true;
-    }
+  const hasDefaultAssignment = surrounding.before.some(
+    ({ assign, guards, isExclusive }) =>
+      !isExclusive &&
+      isPrefix(guards, enclosing) &&
+      assign.target.replace(/\[.*\]$/, '') === nextStateVarName &&
+      stripPackageScope(assign.value).replace(/\[.*\]$/, '') === stateVarName
+  );
+
+  // A case statement, or an if/else-if chain on the state seen as one
+  const ir = buildStateDispatch(caseStmt, new Set([stateVarName, nextStateVarName]));
+  if (!ir) {
+    return { transitions, hasDefaultAssignment };
   }
+  const itemStates = resolveCaseItemStates(ir, stateNames, encodings);
 
-  // Extract case items
-  const caseItems = extractCaseItems(caseStmt, stateNames, nextStateVarName);
+  // A later assignment wins: case transitions only apply when no
+  // override after the case fires
+  const overrideGuards = surrounding.after
+    .filter(({ isExclusive, guards }) => !isExclusive && guards.length > commonPrefixLength(guards, enclosing))
+    .map(({ guards }) => negateCondition(joinGuards(guards.slice(commonPrefixLength(guards, enclosing)))));
 
   // Process each case item
-  for (const item of caseItems) {
-    const itemTransitions = processCaseItem(
-      item,
-      nextStateVarName,
-      stateNames,
-      sourceBlock,
-      hasDefaultAssignment
-    );
-    transitions.push(...itemTransitions);
-  }
+  ir.items.forEach((item, index) => {
+    // Multiple labels (IDLE, WAIT:) and wildcard labels share one body;
+    // the default item's body applies to the states no label covers
+    for (const fromState of itemStates[index]) {
+      const itemTransitions = extractBranchTransitions(item.body, fromState, [...enclosing], context);
+      if (item.isDefault) {
+        for (const transition of itemTransitions) {
+          transition.isDefault = true;
+        }
+      }
+
+      // If no explicit transitions and has default assignment, add implicit self-loop
+      if (itemTransitions.length === 0 && hasDefaultAssignment) {
+        itemTransitions.push({
+          from: fromState,
+          to: fromState,
+          line: item.line,
+          isDefault: true,
+          isSelfLoop: true,
+          isImplicit: true,
+          sourceBlock,
+          outputs: [],
+        });
+      }
+
+      for (const transition of itemTransitions) {
+        if (!transition.isImplicit && overrideGuards.length > 0) {
+          transition.rawCondition = joinGuards([
+            ...(transition.rawCondition ? [transition.rawCondition] : []),
+            ...overrideGuards,
+          ]);
+          transition.condition = simplifyCondition(transition.rawCondition);
+        }
+      }
+
+      transitions.push(...itemTransitions);
+    }
+  });
 
   // Add implicit self-loops if default assignment pattern detected
   if (hasDefaultAssignment) {
-    const explicitFromStates = new Set(transitions.map((t) => t.from));
     for (const state of stateNames) {
       // Check if this state has no explicit handling
       const stateTransitions = transitions.filter((t) => t.from === state);
@@ -57,7 +131,7 @@ export function extractTransitions(
         transitions.push({
           from: state,
           to: state,
-          line: getNodeLine(caseStmt),
+          line: ir.line,
           isDefault: true,
           isSelfLoop: true,
           isImplicit: true,
@@ -68,363 +142,130 @@ export function extractTransitions(
     }
   }
 
-  return { transitions, hasDefaultAssignment };
-}
-
-/**
- * Extract case items from a case statement.
- */
-function extractCaseItems(
-  caseStmt: SyntaxNode,
-  stateNames: Set<string>,
-  nextStateVarName: string
-): CaseItem[] {
-  const items: CaseItem[] = [];
-  const text = getNodeText(caseStmt);
-
-  // Find case_item nodes
-  const caseItemNodes = findNodesOfType(caseStmt, 'case_item');
-
-  for (const itemNode of caseItemNodes) {
-    const itemText = getNodeText(itemNode);
-    const line = getNodeLine(itemNode);
-
-    // Extract the case label(s)
-    const labels = extractCaseLabels(itemNode, itemText, stateNames);
-
-    for (const label of labels) {
-      // Extract assignments and conditions from this item
-      const { assignments, conditions } = extractAssignmentsAndConditions(
-        itemNode,
-        itemText,
-        nextStateVarName
-      );
-
-      items.push({
-        label,
-        line,
-        assignments,
-        conditions,
-      });
+  // Unconditional moves of the default item; from an unused code there is
+  // no current state, so next_state = state doesn't count
+  const defaultItem = ir.items.find((item) => item.isDefault);
+  const recoveryState = defaultItem
+    ? extractBranchTransitions(defaultItem.body, '', [], context)
+        .filter((t) => t.rawCondition === undefined && stateNames.has(t.to))
+        .pop()?.to
+    : undefined;
+
+  // Guarded defaults before the case apply when the state's own
+  // assignments don't fire
+  const local = transitions.filter((t) => !t.isImplicit);
+  for (const { assign, guards, isExclusive } of surrounding.before) {
+    if (isExclusive || isPrefix(guards, enclosing)) {
+      continue; // Unguarded defaults are handled above
     }
-  }
-
-  // Handle default case
-  const defaultMatch = text.match(/default\s*:/i);
-  if (defaultMatch) {
-    // Find the default case item
-    const defaultItem = caseItemNodes.find((n) =>
-      getNodeText(n).toLowerCase().includes('default')
-    );
-    if (defaultItem) {
-      const { assignments, conditions } = extractAssignmentsAndConditions(
-        defaultItem,
-        getNodeText(defaultItem),
-        nextStateVarName
-      );
-      items.push({
-        label: 'default',
-        line: getNodeLine(defaultItem),
-        assignments,
-        conditions,
-      });
-    }
-  }
-
-  return items;
-}
-
-/**
- * Extract case labels from a case item.
- */
-function extractCaseLabels(
-  itemNode: SyntaxNode,
-  itemText: string,
-  stateNames: Set<string>
-): string[] {
-  const labels: string[] = [];
-
-  // Try to find identifier at the start of the case item
-  // Pattern: STATE_NAME: or STATE1, STATE2:
-  const colonIndex = itemText.indexOf(':');
-  if (colonIndex > 0) {
-    const labelPart = itemText.substring(0, colonIndex);
-
-    // Check for multiple labels separated by comma
-    const potentialLabels = labelPart.split(',').map((l) => l.trim());
-
-    for (const label of potentialLabels) {
-      // Check if this is a known state name
-      if (stateNames.has(label)) {
-        labels.push(label);
-      } else if (label.toLowerCase() === 'default') {
-        labels.push('default');
-      } else {
-        // Try to extract identifier
-        const match = label.match(/\b([A-Z_][A-Z0-9_]*)\b/);
-        if (match && stateNames.has(match[1])) {
-          labels.push(match[1]);
-        }
+    for (const state of stateNames) {
+      const own = local.filter((t) => t.from === state);
+      if (own.some((t) => t.rawCondition === undefined)) {
+        continue; // Always overridden
       }
+      const stateGuards = [...guards, ...own.map((t) => negateCondition(t.rawCondition!))];
+      transitions.push(...globalTransitions(assign, stateGuards, [state], context));
     }
   }
 
-  return labels;
-}
-
-/**
- * Extract assignments and conditions from a case item.
- */
-function extractAssignmentsAndConditions(
-  itemNode: SyntaxNode,
-  itemText: string,
-  nextStateVarName: string
-): { assignments: Assignment[]; conditions: ConditionalBlock[] } {
-  const assignments: Assignment[] = [];
-  const conditions: ConditionalBlock[] = [];
-
-  // Find direct assignments (not inside if)
-  const assignmentPattern = new RegExp(
-    `(\\w+)\\s*(<=|=)\\s*([^;]+);`,
-    'g'
-  );
-
-  // First, extract if/else blocks
-  const ifBlocks = extractIfBlocks(itemNode, itemText, nextStateVarName);
-  conditions.push(...ifBlocks);
-
-  // Then find direct assignments (outside of if blocks)
-  // This is a simplification - we look for assignments in the text
-  let match;
-  const processedText = removeIfBlocks(itemText);
-
-  while ((match = assignmentPattern.exec(processedText)) !== null) {
-    const target = match[1];
-    const isBlocking = match[2] === '=';
-    const value = match[3].trim();
-
-    assignments.push({
-      target,
-      value,
-      line: getNodeLine(itemNode),
-      isBlocking,
-    });
+  // Overrides after the case (and branches exclusive with it) apply to
+  // every state
+  for (const { assign, guards } of surrounding.after) {
+    transitions.push(...globalTransitions(assign, guards, Array.from(stateNames), context));
+  }
+  for (const { assign, guards } of surrounding.before.filter((a) => a.isExclusive)) {
+    transitions.push(...globalTransitions(assign, guards, Array.from(stateNames), context));
   }
 
-  return { assignments, conditions };
+  return { transitions, hasDefaultAssignment, recoveryState };
 }
 
 /**
- * Extract if/else blocks from a case item.
+ * Settings shared by the transition builders of one case statement.
  */
-function extractIfBlocks(
-  itemNode: SyntaxNode,
-  itemText: string,
-  nextStateVarName: string
-): ConditionalBlock[] {
-  const blocks: ConditionalBlock[] = [];
-
-  // Look for conditional_statement nodes
-  const ifNodes = findNodesOfType(itemNode, 'conditional_statement');
-
-  for (const ifNode of ifNodes) {
-    const block = parseConditionalBlock(ifNode, nextStateVarName);
-    if (block) {
-      blocks.push(block);
-    }
-  }
-
-  // Fallback: parse from text using regex
-  if (blocks.length === 0 && itemText.includes('if')) {
-    const textBlocks = parseIfBlocksFromText(itemText, nextStateVarName, getNodeLine(itemNode));
-    blocks.push(...textBlocks);
-  }
-
-  return blocks;
+interface TransitionContext {
+  stateVarName: string;
+  nextStateVarName: string;
+  stateNames: Set<string>;
+  sourceBlock: 'always_ff' | 'always_comb' | 'always';
+  encodings: Map<string, number>;
 }
 
 /**
- * Parse a conditional_statement node into a ConditionalBlock.
+ * Extract the transitions out of one case item body.
  */
-function parseConditionalBlock(
-  ifNode: SyntaxNode,
-  nextStateVarName: string
-): ConditionalBlock | null {
-  const text = getNodeText(ifNode);
-  const line = getNodeLine(ifNode);
-
-  // Extract condition
-  const condMatch = text.match(/if\s*\(([^)]+)\)/i);
-  if (!condMatch) {
-    return null;
-  }
+function extractBranchTransitions(
+  body: Statement,
+  fromState: string,
+  baseGuards: string[],
+  context: TransitionContext
+): FSMTransition[] {
+  const transitions: FSMTransition[] = [];
+  let rank = 0;
 
-  const condition = condMatch[1].trim();
-
-  // Find assignments in the if branch
-  const assignments = extractAssignmentsFromText(text, line);
-
-  // Look for else branch
-  let elseAssignments: Assignment[] | undefined;
-  let nestedConditions: ConditionalBlock[] | undefined;
-
-  const elseMatch = text.match(/\belse\b/i);
-  if (elseMatch) {
-    // Check for else if
-    const elseIfMatch = text.match(/else\s+if\s*\(/i);
-    if (elseIfMatch) {
-      // Has nested else if - parse recursively
-      nestedConditions = [];
-      const nestedIfNodes = findNodesOfType(ifNode, 'conditional_statement');
-      for (const nested of nestedIfNodes) {
-        if (nested !== ifNode) {
-          const nestedBlock = parseConditionalBlock(nested, nextStateVarName);
-          if (nestedBlock) {
-            nestedConditions.push(nestedBlock);
-          }
-        }
+  for (const { assign, guards, isPriority } of collectAssignments(body, baseGuards)) {
+    for (const transition of assignmentTransitions(assign, guards, fromState, context)) {
+      // priority if/case: the first matching branch wins (1 = highest)
+      if (isPriority) {
+        transition.priority = ++rank;
       }
-    } else {
-      // Plain else
-      const elseIndex = text.indexOf('else');
-      const elseText = text.substring(elseIndex + 4);
-      elseAssignments = extractAssignmentsFromText(elseText, line);
+      transitions.push(transition);
     }
   }
 
-  return {
-    condition,
-    assignments,
-    elseAssignments,
-    nestedConditions,
-    line,
-  };
-}
-
-/**
- * Parse if blocks from text (fallback).
- */
-function parseIfBlocksFromText(
-  text: string,
-  nextStateVarName: string,
-  baseLine: number
-): ConditionalBlock[] {
-  const blocks: ConditionalBlock[] = [];
-
-  // Simple if pattern: if (condition) next_state = VALUE;
-  const simpleIfPattern = /if\s*\(([^)]+)\)\s*(?:begin\s*)?(\w+)\s*(<=|=)\s*(\w+)\s*;/gi;
-
-  let match;
-  while ((match = simpleIfPattern.exec(text)) !== null) {
-    const condition = match[1].trim();
-    const target = match[2];
-    const isBlocking = match[3] === '=';
-    const value = match[4];
-
-    blocks.push({
-      condition,
-      assignments: [{
-        target,
-        value,
-        line: baseLine,
-        isBlocking,
-      }],
-      line: baseLine,
-    });
-  }
-
-  return blocks;
-}
-
-/**
- * Extract assignments from text.
- */
-function extractAssignmentsFromText(text: string, baseLine: number): Assignment[] {
-  const assignments: Assignment[] = [];
-  const pattern = /(\w+)\s*(<=|=)\s*([^;]+);/g;
-
-  let match;
-  while ((match = pattern.exec(text)) !== null) {
-    assignments.push({
-      target: match[1],
-      value: match[3].trim(),
-      line: baseLine,
-      isBlocking: match[2] === '=',
-    });
-  }
-
-  return assignments;
+  return transitions;
 }
 
 /**
- * Remove if blocks from text for finding direct assignments.
+ * Build the global transitions of an assignment outside the case: one per
+ * source state, marked isGlobal.
  */
-function removeIfBlocks(text: string): string {
-  // Remove content between 'if' and matching 'end' or semicolon
-  // This is a simplification
-  return text.replace(/if\s*\([^)]+\)\s*begin[\s\S]*?end/gi, '')
-             .replace(/if\s*\([^)]+\)\s*[^;]+;/gi, '')
-             .replace(/else\s*begin[\s\S]*?end/gi, '')
-             .replace(/else\s*[^;]+;/gi, '');
+function globalTransitions(
+  assign: AssignStatement,
+  guards: string[],
+  fromStates: string[],
+  context: TransitionContext
+): FSMTransition[] {
+  return fromStates.flatMap((fromState) =>
+    assignmentTransitions(assign, guards, fromState, context).map((t) => ({ ...t, isGlobal: true }))
+  );
 }
 
 /**
- * Process a case item to extract transitions.
+ * Turn one next-state assignment into transitions out of a state.
+ *
+ * next_state = go ? RUN : IDLE; yields one transition per arm.
  */
-function processCaseItem(
-  item: CaseItem,
-  nextStateVarName: string,
-  stateNames: Set<string>,
-  sourceBlock: 'always_ff' | 'always_comb' | 'always',
-  hasDefaultAssignment: boolean
+function assignmentTransitions(
+  assign: AssignStatement,
+  guards: string[],
+  fromState: string,
+  context: TransitionContext
 ): FSMTransition[] {
-  const transitions: FSMTransition[] = [];
-  const fromState = item.label;
-
-  if (fromState === 'default') {
-    return transitions; // Handle default separately
+  const { stateVarName, nextStateVarName, stateNames, sourceBlock, encodings } = context;
+  if (!isStateAssignment(assign.target, nextStateVarName)) {
+    return [];
   }
 
-  // Process direct assignments
-  for (const assign of item.assignments) {
-    if (assign.target === nextStateVarName || isStateAssignment(assign.target, nextStateVarName)) {
-      const toState = assign.value;
-      if (stateNames.has(toState)) {
-        transitions.push({
-          from: fromState,
-          to: toState,
-          line: assign.line,
-          isSelfLoop: fromState === toState,
-          sourceBlock,
-          outputs: [],
-        });
-      }
+  const transitions: FSMTransition[] = [];
+  for (const arm of splitConditionalValue(assign.valueNode, assign.value)) {
+    const toState = resolveAssignedState(assign.target, arm.value, nextStateVarName, stateNames, encodings, {
+      varName: stateVarName,
+      state: fromState,
+    });
+    if (!toState) {
+      continue;
     }
-  }
-
-  // Process conditional transitions
-  for (const cond of item.conditions) {
-    const condTransitions = processConditionalBlock(
-      cond,
-      fromState,
-      nextStateVarName,
-      stateNames,
-      sourceBlock,
-      '',
-      hasDefaultAssignment
-    );
-    transitions.push(...condTransitions);
-  }
 
-  // If no explicit transitions and has default assignment, add implicit self-loop
-  if (transitions.length === 0 && hasDefaultAssignment) {
+    const armGuards = [...guards, ...arm.guards];
+    const rawCondition = armGuards.length > 0 ? joinGuards(armGuards) : undefined;
     transitions.push({
       from: fromState,
-      to: fromState,
-      line: item.line,
-      isDefault: true,
-      isSelfLoop: true,
-      isImplicit: true,
+      to: toState,
+      condition: rawCondition ? simplifyCondition(rawCondition) : undefined,
+      rawCondition,
+      line: assign.line,
+      isSelfLoop: fromState === toState,
       sourceBlock,
       outputs: [],
     });
@@ -434,95 +275,124 @@ function processCaseItem(
 }
 
 /**
- * Process a conditional block to extract transitions.
+ * An assignment in the always block but outside the state case.
  */
-function processConditionalBlock(
-  cond: ConditionalBlock,
-  fromState: string,
-  nextStateVarName: string,
-  stateNames: Set<string>,
-  sourceBlock: 'always_ff' | 'always_comb' | 'always',
-  accumulatedCondition: string,
-  hasDefaultAssignment: boolean
-): FSMTransition[] {
-  const transitions: FSMTransition[] = [];
+interface SurroundingAssignment {
+  assign: AssignStatement;
+  guards: string[];
+  isExclusive: boolean;         // In a branch that can't run with the case
+}
 
-  // Build the full condition
-  const fullCondition = accumulatedCondition
-    ? `${accumulatedCondition} && ${cond.condition}`
-    : cond.condition;
+const CONTAINER_TYPES = new Set(['always_construct', 'function_declaration', 'task_declaration']);
 
-  // Find state assignment in if branch
-  for (const assign of cond.assignments) {
-    if (assign.target === nextStateVarName || isStateAssignment(assign.target, nextStateVarName)) {
-      const toState = assign.value;
-      if (stateNames.has(toState)) {
-        transitions.push({
-          from: fromState,
-          to: toState,
-          condition: simplifyCondition(fullCondition),
-          rawCondition: fullCondition,
-          line: assign.line,
-          isSelfLoop: fromState === toState,
-          sourceBlock,
-          outputs: [],
-        });
-      }
-    }
+/**
+ * Find the next-state assignments around a state case in its always block
+ * (or in the function/task it is inlined from).
+ *
+ * @returns The guards enclosing the case, and the assignments before and
+ *          after it in execution order
+ */
+function findSurroundingAssignments(
+  caseStmt: SyntaxNode,
+  stateVarName: string,
+  nextStateVarName: string
+): { enclosingGuards: string[]; before: SurroundingAssignment[]; after: SurroundingAssignment[] } {
+  const result = {
+    enclosingGuards: [] as string[],
+    before: [] as SurroundingAssignment[],
+    after: [] as SurroundingAssignment[],
+  };
+
+  // The always block, or the function/task computing the next state
+  let container: SyntaxNode | null = caseStmt.parent;
+  while (container && !CONTAINER_TYPES.has(container.type)) {
+    container = container.parent;
+  }
+  if (!container) {
+    return result;
   }
+  const binding = getSubroutineBinding(container, new Set([stateVarName, nextStateVarName]));
+
+  let reached = false;
+  const contains = (stmt: Statement): boolean =>
+    stmt.node.startIndex <= caseStmt.startIndex && caseStmt.endIndex <= stmt.node.endIndex;
+
+  const walk = (stmt: Statement, guards: string[], isExclusive: boolean): void => {
+    if (stmt.node.id === caseStmt.id && (stmt.kind === 'case' || stmt.kind === 'if')) {
+      // if (!rst_n) ... else case (state): the reset guard isn't a condition
+      result.enclosingGuards = guards.filter((g) => !isResetGuard(g));
+      reached = true;
+      return;
+    }
+
+    // Reset branches set the initial state; they aren't transitions
+    if (!reached && !contains(stmt) && guards.some(isResetGuard)) {
+      return;
+    }
 
-  // Process else branch
-  if (cond.elseAssignments && cond.elseAssignments.length > 0) {
-    const elseCondition = accumulatedCondition
-      ? `${accumulatedCondition} && !(${cond.condition})`
-      : `!(${cond.condition})`;
-
-    for (const assign of cond.elseAssignments) {
-      if (assign.target === nextStateVarName || isStateAssignment(assign.target, nextStateVarName)) {
-        const toState = assign.value;
-        if (stateNames.has(toState)) {
-          transitions.push({
-            from: fromState,
-            to: toState,
-            condition: simplifyCondition(elseCondition),
-            rawCondition: elseCondition,
-            line: assign.line,
-            isSelfLoop: fromState === toState,
-            sourceBlock,
-            outputs: [],
-          });
+    switch (stmt.kind) {
+      case 'assign':
+        if (isStateAssignment(stmt.target, nextStateVarName)) {
+          const conditions = guards.filter((g) => !isResetGuard(g));
+          (reached ? result.after : result.before).push({ assign: stmt, guards: conditions, isExclusive });
+        }
+        break;
+      case 'block':
+        for (const child of stmt.statements) {
+          walk(child, guards, isExclusive);
+        }
+        break;
+      case 'if': {
+        // Once the path to the case takes one branch, the other is exclusive
+        const onPath = !reached && contains(stmt);
+        const thenHasCase = onPath && contains(stmt.then);
+        walk(stmt.then, [...guards, stmt.condition], isExclusive || (onPath && !thenHasCase));
+        if (stmt.else) {
+          walk(stmt.else, [...guards, negateCondition(stmt.condition)], isExclusive || (onPath && thenHasCase));
         }
+        break;
       }
+      case 'case': {
+        const onPath = !reached && contains(stmt);
+        for (const item of stmt.items) {
+          const itemGuards = [...guards, ...caseBranchGuards(stmt, item)];
+          walk(item.body, itemGuards, isExclusive || (onPath && !contains(item.body)));
+        }
+        break;
+      }
+      case 'other':
+        break;
     }
-  }
+  };
 
-  // Process nested conditions (else if)
-  if (cond.nestedConditions) {
-    const negatedCurrent = accumulatedCondition
-      ? `${accumulatedCondition} && !(${cond.condition})`
-      : `!(${cond.condition})`;
-
-    for (const nested of cond.nestedConditions) {
-      const nestedTransitions = processConditionalBlock(
-        nested,
-        fromState,
-        nextStateVarName,
-        stateNames,
-        sourceBlock,
-        negatedCurrent,
-        hasDefaultAssignment
-      );
-      transitions.push(...nestedTransitions);
-    }
-  }
+  const body = buildStatement(container);
+  walk(binding ? inlineStatement(body, binding) : body, [], false);
+  return result;
+}
 
-  return transitions;
+/**
+ * Check if guards are a prefix of (or equal to) other guards.
+ */
+function isPrefix(guards: string[], of: string[]): boolean {
+  return guards.length <= of.length && guards.every((g, i) => g === of[i]);
+}
+
+/**
+ * Count the leading guards two guard lists share.
+ */
+function commonPrefixLength(a: string[], b: string[]): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) {
+    i++;
+  }
+  return i;
 }
 
 /**
  * Check if a variable is a state assignment target.
  */
 function isStateAssignment(target: string, nextStateVarName: string): boolean {
+  target = target.replace(/\[.*\]$/, '');
   return target === nextStateVarName ||
          target.toLowerCase().includes('state') ||
          target.toLowerCase() === 'ns' ||
@@ -549,34 +419,42 @@ export function simplifyCondition(condition: string): string {
 
 /**
  * Extract reset state from always_ff block.
+ *
+ * Patterns we handle:
+ * - if (!rst_n) state <= IDLE; else ...
+ * - if (rst) begin state <= IDLE; ... end
+ * - if (rst == 1'b0) state <= IDLE;
+ * - if (rst) state <= 3'b001;        (literal matched against the encodings)
+ * - if (rst) state[IDLE_B] <= 1'b1;  (one-hot)
+ *
+ * The first state assignment guarded by a reset-like signal wins; if no
+ * guard names a reset signal, the first guarded state assignment is used.
  */
 export function extractResetState(
   alwaysNode: SyntaxNode,
   stateVarName: string,
-  stateNames: Set<string>
+  stateNames: Set<string>,
+  encodings: Map<string, number> = new Map()
 ): string | null {
-  const text = getNodeText(alwaysNode);
-
-  // Look for reset pattern: if (!rst_n) state <= IDLE;
-  const resetPatterns = [
-    // Active low: if (!rst_n) state <= STATE;
-    new RegExp(`if\\s*\\(\\s*[!~]\\s*\\w+\\s*\\)\\s*(?:begin\\s*)?${stateVarName}\\s*<=\\s*(\\w+)`, 'i'),
-    // Active high: if (rst) state <= STATE;
-    new RegExp(`if\\s*\\(\\s*\\w+\\s*\\)\\s*(?:begin\\s*)?${stateVarName}\\s*<=\\s*(\\w+)`, 'i'),
-    // With comparison: if (rst == 1'b0) state <= STATE;
-    new RegExp(`if\\s*\\([^)]+\\)\\s*(?:begin\\s*)?${stateVarName}\\s*<=\\s*(\\w+)`, 'i'),
-  ];
-
-  for (const pattern of resetPatterns) {
-    const match = text.match(pattern);
-    if (match) {
-      const resetState = match[1];
-      if (stateNames.has(resetState)) {
-        return resetState;
-      }
-    }
-  }
+  const candidates = collectAssignments(buildStatement(alwaysNode))
+    .filter(({ assign, guards }) => assign.target.replace(/\[.*\]$/, '') === stateVarName && guards.length > 0)
+    .map(({ assign, guards }) => ({
+      guards,
+      state: resolveAssignedState(assign.target, assign.value, stateVarName, stateNames, encodings),
+    }))
+    .filter(({ state }) => state !== null);
+
+  const reset =
+    candidates.find(({ guards }) => isResetGuard(guards[0])) ||
+    candidates[0];
+
+  // Fallback: caller uses the first state in the enum
+  return reset ? reset.state : null;
+}
 
-  // Fallback: return first state in enum
-  return null;
+/**
+ * Check if a guard tests a reset signal (if (!rst_n), if (rst == 1'b1)).
+ */
+export function isResetGuard(guard: string): boolean {
+  return (guard.match(/\b[a-zA-Z_]\w*\b/g) || []).some((name) => isResetSignalName(name));
 }
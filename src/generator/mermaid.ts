@@ -9,8 +9,14 @@ export const defaultMermaidOptions: MermaidOptions = {
   showConditions: true,
   showOutputs: false,
   showSelfLoops: true,
+  compactGlobalTransitions: true,
 };
 
+/**
+ * Pseudo-state that global transitions start from in compact diagrams.
+ */
+const ANY_STATE_ID = 'any_state';
+
 /**
  * Generate Mermaid stateDiagram-v2 code from an FSM.
  */
@@ -29,11 +35,13 @@ export function generateMermaid(fsm: FSM, options: Partial<MermaidOptions> = {})
 
   // State definitions with Moore outputs
   if (opts.showOutputs) {
-    const statesWithOutputs = fsm.states.filter((s) => s.outputs.length > 0);
+    const statesWithOutputs = fsm.states.filter(
+      (s) => s.outputs.length > 0 || s.mealyOutputs?.length || (opts.showInheritedOutputs && s.effectiveOutputs?.length)
+    );
     if (statesWithOutputs.length > 0) {
       lines.push('');
       for (const state of statesWithOutputs) {
-        lines.push(...generateStateDefinition(state));
+        lines.push(...generateStateDefinition(state, opts));
       }
     }
   }
@@ -47,9 +55,12 @@ export function generateMermaid(fsm: FSM, options: Partial<MermaidOptions> = {})
 }
 
 /**
- * Generate state definition with Moore outputs.
+ * Generate state definition with Moore outputs, then the state's
+ * input-guarded outputs as "condition / output". With
+ * showInheritedOutputs, values the state takes from the output defaults
+ * follow, marked "(default)".
  */
-function generateStateDefinition(state: FSMState): string[] {
+function generateStateDefinition(state: FSMState, opts: MermaidOptions): string[] {
   const lines: string[] = [];
 
   // State name line
@@ -59,6 +70,14 @@ function generateStateDefinition(state: FSMState): string[] {
   for (const output of state.outputs) {
     lines.push(`    ${state.name}: ${formatOutput(output)}`);
   }
+  for (const output of state.mealyOutputs ?? []) {
+    lines.push(`    ${state.name}: ${output.condition} / ${formatOutput(output)}`);
+  }
+  if (opts.showInheritedOutputs) {
+    for (const output of (state.effectiveOutputs ?? []).filter((o) => o.isInherited)) {
+      lines.push(`    ${state.name}: ${formatOutput(output)} (default)`);
+    }
+  }
 
   return lines;
 }
@@ -68,8 +87,22 @@ function generateStateDefinition(state: FSMState): string[] {
  */
 function generateTransitions(fsm: FSM, opts: MermaidOptions): string[] {
   const lines: string[] = [];
+  const compacted = opts.compactGlobalTransitions ? findCompactGlobals(fsm) : [];
+
+  if (compacted.length > 0) {
+    lines.push(`    state "any state" as ${ANY_STATE_ID}`);
+    for (const transition of compacted) {
+      const line = generateTransitionLine({ ...transition, from: ANY_STATE_ID }, opts);
+      lines.push(`    ${line}`);
+    }
+  }
 
   for (const transition of fsm.transitions) {
+    // Drawn once from "any state" above
+    if (compacted.some((c) => isSameGlobal(c, transition))) {
+      continue;
+    }
+
     // Skip self-loops if not showing them
     if (transition.isSelfLoop && !opts.showSelfLoops) {
       continue;
@@ -87,6 +120,35 @@ function generateTransitions(fsm: FSM, opts: MermaidOptions): string[] {
   return lines;
 }
 
+/**
+ * Find the global transitions that leave every state, one per source line
+ * and target.
+ */
+function findCompactGlobals(fsm: FSM): FSMTransition[] {
+  const result: FSMTransition[] = [];
+
+  for (const transition of fsm.transitions) {
+    if (!transition.isGlobal || result.some((r) => isSameGlobal(r, transition))) {
+      continue;
+    }
+    const sources = new Set(
+      fsm.transitions.filter((t) => isSameGlobal(t, transition)).map((t) => t.from)
+    );
+    if (fsm.states.every((s) => sources.has(s.name))) {
+      result.push(transition);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check if two transitions are copies of the same global assignment.
+ */
+function isSameGlobal(a: FSMTransition, b: FSMTransition): boolean {
+  return !!a.isGlobal && !!b.isGlobal && a.line === b.line && a.to === b.to && a.rawCondition === b.rawCondition;
+}
+
 /**
  * Generate a single transition line.
  */
@@ -203,6 +265,8 @@ export function escapeMermaidLabel(label: string): string {
 
 /**
  * Generate Mermaid code with click handlers for source linking.
+ *
+ * Handlers get the state's stable ID (see getStateId) and line.
  */
 export function generateMermaidWithClickHandlers(
   fsm: FSM,
@@ -214,7 +278,7 @@ export function generateMermaidWithClickHandlers(
   // Add click handlers for states
   const clickHandlers: string[] = [];
   for (const state of fsm.states) {
-    clickHandlers.push(`    click ${state.name} call handleStateClick("${state.name}", ${state.line})`);
+    clickHandlers.push(`    click ${state.name} call handleStateClick("${state.id ?? state.name}", ${state.line})`);
   }
 
   if (clickHandlers.length > 0) {
@@ -4,18 +4,34 @@
 
 // Parser
 export { initParser, parseSystemVerilog, resetParser } from './parser/tree-sitter-init.js';
+export { preprocess, createMacroTable, mapLine } from './parser/preprocessor.js';
+export type { MacroDefinition, MacroTable, PreprocessResult } from './parser/preprocessor.js';
+export { detectParseErrors } from './parser/syntax-errors.js';
 
 // Extractors
 export { detectEnumDefinitions, looksLikeFSMEnum, detectEncodingType } from './extractor/enum-detector.js';
+export { detectParameterStates, matchParameterStates } from './extractor/param-detector.js';
 export { detectStateRegisters, matchStateRegisterPairs, findStateRegistersForEnum } from './extractor/register-detector.js';
-export { analyzeAlwaysBlocks, findStateCaseStatements, detectBlockStyle, getTransitionBlock } from './extractor/always-analyzer.js';
+export { analyzeAlwaysBlocks, analyzeAlwaysBlock, isClockedBlock, findStateCaseStatements, detectBlockStyle, getTransitionBlock } from './extractor/always-analyzer.js';
 export { extractTransitions, extractResetState, simplifyCondition } from './extractor/transition-builder.js';
-export { extractMooreOutputs, extractMealyOutputs, extractOutputsFromCaseStatement, attachOutputsToTransitions, formatOutput, formatOutputs } from './extractor/output-extractor.js';
+export { extractMooreOutputs, extractMealyOutputs, extractOutputsFromCaseStatement, attachOutputsToTransitions, extractDefaultOutputs, applyDefaultOutputs, getOutputTable, formatOutput, formatOutputs } from './extractor/output-extractor.js';
 export { detectMultipleFSMs, getModuleName } from './extractor/multi-fsm-detector.js';
+export { buildPackageSymbolTable, resolveImportedEnums } from './extractor/package-resolver.js';
+export { getStateEncodings, resolveCaseItemStates, resolveStateValue, resolveStateBit, resolveAssignedState } from './extractor/case-labels.js';
+export { isReverseStateCase, detectOneHotStates } from './extractor/onehot-detector.js';
+export { findStateIfChains, buildStateDispatch } from './extractor/if-chain-detector.js';
+export { findCalledDispatches, getSubroutineBinding, getCallOutputs, inlineStatement } from './extractor/subroutine-inliner.js';
+export type { SubroutineBinding } from './extractor/subroutine-inliner.js';
+export { detectReplication } from './extractor/replication-detector.js';
+export { detectFlopStateFSMs } from './extractor/flop-state-detector.js';
+export { buildParameterTable, evaluateConstant } from './extractor/const-eval.js';
+export { extractDecodedOutputs, extractRegisteredOutputs } from './extractor/state-decoder.js';
+export { getStateId, getTransitionId, assignTransitionIds, assignStableIds } from './extractor/stable-ids.js';
 
 // Validators
 export { validateReachability, isStronglyConnected, findReachableStates, findCycles } from './validator/reachability.js';
 export { validateCoverage, checkTransitionCoverage, validateTransitionTargets, findDuplicateTransitions, checkNonDeterminism, generateValidationSummary } from './validator/coverage.js';
+export { validateParseErrors } from './validator/parse-errors.js';
 
 // Generators
 export { generateMermaid, generateMermaidWithAnnotations, generateJSON, generateCompactMermaid, generateMermaidWithClickHandlers, validateMermaidSyntax, defaultMermaidOptions } from './generator/mermaid.js';
@@ -28,47 +44,225 @@ export * from './errors.js';
 
 // High-level API
 import { parseSystemVerilog } from './parser/tree-sitter-init.js';
+import { preprocess, createMacroTable, mapLine } from './parser/preprocessor.js';
+import type { MacroTable } from './parser/preprocessor.js';
+import { detectParseErrors } from './parser/syntax-errors.js';
 import { detectMultipleFSMs, getModuleName } from './extractor/multi-fsm-detector.js';
+import { assignStableIds } from './extractor/stable-ids.js';
+import { buildPackageSymbolTable, resolveImportedEnums } from './extractor/package-resolver.js';
 import { validateReachability } from './validator/reachability.js';
 import { validateCoverage } from './validator/coverage.js';
+import { validateParseErrors } from './validator/parse-errors.js';
 import { generateMermaid, generateJSON, defaultMermaidOptions } from './generator/mermaid.js';
 import { noFSMError, noModuleError } from './errors.js';
-import type { FSM, ModuleAnalysis, MermaidOptions, ExtractOptions } from './types.js';
+import { findNodesOfType } from './parser/ast-walker.js';
+import type { SyntaxNode } from './parser/ast-walker.js';
+import type { FSM, ModuleAnalysis, MermaidOptions, ExtractOptions, EnumDefinition, SourceFile, PreprocessOptions, LineOrigin, ParseError, RenderedFSM } from './types.js';
 
 /**
  * Extract FSMs from SystemVerilog source code.
  *
+ * Each module is analyzed on its own, so FSMs from different modules in
+ * the same file are never mixed. Packages and file-level typedefs in the
+ * source are visible to the modules that import them.
+ *
  * @param source - SystemVerilog source code
- * @returns ModuleAnalysis containing detected FSMs
+ * @param options - Predefined macros and include resolution
+ * @returns One ModuleAnalysis per module declaration, in source order
  */
-export async function extractFSMs(source: string): Promise<ModuleAnalysis> {
-  // Parse the source
-  const tree = await parseSystemVerilog(source);
-  const root = tree.rootNode;
+export async function extractFSMs(
+  source: string,
+  options: PreprocessOptions = {}
+): Promise<ModuleAnalysis[]> {
+  const parsed = await parseSource(source, options);
+  const symbols = buildPackageSymbolTable([parsed.root]);
+
+  // Snippets without a module declaration are analyzed as a whole
+  const moduleNodes = findNodesOfType(parsed.root, 'module_declaration');
+  const scopes = moduleNodes.length > 0 ? moduleNodes : [parsed.root];
+
+  return scopes.map((scope) => analyzeModule(scope, parsed, resolveImportedEnums(scope, symbols)));
+}
 
-  // Get module name
-  const moduleName = getModuleName(root) || 'unknown';
+/**
+ * Extract FSMs from a set of SystemVerilog files.
+ *
+ * The files are treated as one compilation unit: packages and file-level
+ * typedefs from every file are collected into a symbol table first, so a
+ * state enum declared in a shared *_pkg.sv is resolved in the modules that
+ * import it (import my_pkg::*; or my_pkg::state_t).
+ *
+ * Macros carry over from one file to the next, in the order given, as they
+ * do for a simulator compiling the same file list.
+ *
+ * @param files - Source files to parse together
+ * @param options - Predefined macros and include resolution
+ * @returns One ModuleAnalysis per module declaration, in file order
+ */
+export async function extractFSMsFromFiles(
+  files: SourceFile[],
+  options: PreprocessOptions = {}
+): Promise<ModuleAnalysis[]> {
+  const macros = createMacroTable(options.defines);
+  const parsed: ParsedSource[] = [];
+  for (const file of files) {
+    parsed.push(await parseSource(file.source, options, file.path, macros));
+  }
+
+  const symbols = buildPackageSymbolTable(parsed.map((p) => p.root));
+
+  const results: ModuleAnalysis[] = [];
+  for (const file of parsed) {
+    // Package-only files have no module declarations
+    for (const moduleNode of findNodesOfType(file.root, 'module_declaration')) {
+      results.push(analyzeModule(moduleNode, file, resolveImportedEnums(moduleNode, symbols)));
+    }
+  }
+
+  return results;
+}
 
+/**
+ * A preprocessed and parsed source file.
+ */
+interface ParsedSource {
+  path?: string;
+  root: SyntaxNode;
+  lineMap: LineOrigin[];          // Preprocessed line -> original location
+  preprocessErrors: ParseError[]; // Already in original locations
+  syntaxErrors: ParseError[];     // In preprocessed lines
+}
+
+/**
+ * Preprocess and parse one source file.
+ */
+async function parseSource(
+  source: string,
+  options: PreprocessOptions,
+  path?: string,
+  macros?: MacroTable
+): Promise<ParsedSource> {
+  // Expand macros and conditionals, then parse
+  const preprocessed = preprocess(source, options, path, macros);
+  const tree = await parseSystemVerilog(preprocessed.source);
+
+  return {
+    path,
+    root: tree.rootNode,
+    lineMap: preprocessed.lineMap,
+    preprocessErrors: preprocessed.errors,
+    syntaxErrors: detectParseErrors(tree.rootNode, preprocessed.source),
+  };
+}
+
+/**
+ * Detect and validate the FSMs of a parsed module.
+ *
+ * @param scope - module_declaration node (or the root for snippets)
+ * @param parsed - File the module belongs to
+ * @param importedEnums - Enums resolved from packages and $unit
+ */
+function analyzeModule(
+  scope: SyntaxNode,
+  parsed: ParsedSource,
+  importedEnums: EnumDefinition[] = []
+): ModuleAnalysis {
   // Detect FSMs
-  const fsms = detectMultipleFSMs(root);
+  const fsms = detectMultipleFSMs(scope, importedEnums);
+
+  const analysis: ModuleAnalysis = {
+    moduleName: getModuleName(scope) || 'unknown',
+    fsms,
+    parseErrors: [...parsed.preprocessErrors.map((e) => ({ ...e })), ...getScopeSyntaxErrors(scope, parsed)],
+  };
+  if (parsed.path) {
+    analysis.file = parsed.path;
+  }
+  remapLines(analysis, parsed.lineMap, parsed.path);
 
   // Validate each FSM
   for (const fsm of fsms) {
     const reachabilityWarnings = validateReachability(fsm);
     const coverageWarnings = validateCoverage(fsm);
-    fsm.warnings.push(...reachabilityWarnings, ...coverageWarnings);
+    const parseErrorWarnings = validateParseErrors(fsm, analysis.parseErrors, analysis.file);
+    fsm.warnings.push(...reachabilityWarnings, ...coverageWarnings, ...parseErrorWarnings);
   }
 
-  return {
-    moduleName,
-    fsms,
-    parseErrors: [],
-  };
+  return analysis;
+}
+
+/**
+ * Get the syntax errors that belong to a module, mapped to original lines.
+ *
+ * Errors outside every module (e.g. in a package) are reported with each
+ * module of the file, since they can hide declarations the module uses.
+ */
+function getScopeSyntaxErrors(scope: SyntaxNode, parsed: ParsedSource): ParseError[] {
+  const contains = (node: SyntaxNode, line: number) =>
+    line >= node.startPosition.row + 1 && line <= node.endPosition.row + 1;
+  const modules = findNodesOfType(parsed.root, 'module_declaration');
+
+  return parsed.syntaxErrors
+    .filter((e) => contains(scope, e.line) || !modules.some((m) => contains(m, e.line)))
+    .map((e) => {
+      const origin = mapLine(parsed.lineMap, e.line);
+      return { ...e, line: origin.line, file: origin.file };
+    });
+}
+
+/**
+ * Map FSM line numbers in the preprocessed text back to the original sources.
+ *
+ * Lines coming from an `include'd file also record that file.
+ */
+function remapLines(analysis: ModuleAnalysis, lineMap: LineOrigin[], file?: string): void {
+  const originalLine = (line: number) => mapLine(lineMap, line).line;
+
+  for (const fsm of analysis.fsms) {
+    for (const state of fsm.states) {
+      const origin = mapLine(lineMap, state.line);
+      state.line = origin.line;
+      if (origin.file !== file) {
+        state.file = origin.file;
+      }
+      for (const output of state.outputs) {
+        output.line = originalLine(output.line);
+      }
+    }
+    for (const transition of fsm.transitions) {
+      const origin = mapLine(lineMap, transition.line);
+      transition.line = origin.line;
+      if (origin.file !== file) {
+        transition.file = origin.file;
+      }
+      for (const output of transition.outputs) {
+        output.line = originalLine(output.line);
+      }
+    }
+    for (const warning of fsm.warnings) {
+      if (warning.line !== undefined) {
+        warning.line = originalLine(warning.line);
+      }
+    }
+    for (const region of fsm.regions || []) {
+      const origin = mapLine(lineMap, region.line);
+      region.line = origin.line;
+      if (origin.file !== file) {
+        region.file = origin.file;
+      }
+      if (region.endLine !== undefined) {
+        region.endLine = originalLine(region.endLine);
+      }
+    }
+    assignStableIds(fsm); // IDs follow the original locations
+  }
 }
 
 /**
  * Extract a single FSM and generate Mermaid output.
  *
+ * Only the first FSM is used; see extractAll for every FSM.
+ *
  * @param source - SystemVerilog source code
  * @param options - Mermaid generation options
  * @returns Mermaid diagram string or error
@@ -77,13 +271,13 @@ export async function extractAndGenerateMermaid(
   source: string,
   options: Partial<MermaidOptions> = {}
 ): Promise<{ mermaid: string; fsm: FSM; warnings: string[] }> {
-  const analysis = await extractFSMs(source);
+  const fsms = (await extractFSMs(source)).flatMap((a) => a.fsms);
 
-  if (analysis.fsms.length === 0) {
+  if (fsms.length === 0) {
     throw noFSMError();
   }
 
-  const fsm = analysis.fsms[0];
+  const fsm = fsms[0];
   const mermaid = generateMermaid(fsm, options);
   const warnings = fsm.warnings.map((w) => w.message);
 
@@ -93,6 +287,9 @@ export async function extractAndGenerateMermaid(
 /**
  * Extract FSM and generate output in specified format.
  *
+ * With options.all, every FSM is emitted: Mermaid output becomes a Markdown
+ * document with one section per FSM, and JSON output becomes an array.
+ *
  * @param source - SystemVerilog source code
  * @param options - Extract options
  * @returns Output string in requested format
@@ -101,7 +298,79 @@ export async function extract(
   source: string,
   options: Partial<ExtractOptions> = {}
 ): Promise<string> {
-  const opts: ExtractOptions = {
+  const opts = withDefaults(options);
+  const analyses = await extractFSMs(source, opts.preprocess);
+
+  return renderExtraction(analyses, opts);
+}
+
+/**
+ * Extract FSM from a set of files and generate output in specified format.
+ *
+ * @param files - Source files to parse together (packages and modules)
+ * @param options - Extract options
+ * @returns Output string in requested format
+ */
+export async function extractFromFiles(
+  files: SourceFile[],
+  options: Partial<ExtractOptions> = {}
+): Promise<string> {
+  const opts = withDefaults(options);
+  const analyses = await extractFSMsFromFiles(files, opts.preprocess);
+
+  return renderExtraction(analyses, opts);
+}
+
+/**
+ * Extract every FSM and render each one on its own, e.g. to write one file
+ * per FSM into an output directory.
+ *
+ * @param source - SystemVerilog source code
+ * @param options - Extract options (module and fsm narrow the selection)
+ * @returns One entry per FSM, in source order, named by fsmFileName
+ */
+export async function extractAll(
+  source: string,
+  options: Partial<ExtractOptions> = {}
+): Promise<RenderedFSM[]> {
+  const opts = withDefaults(options);
+  const analyses = await extractFSMs(source, opts.preprocess);
+
+  return renderAll(analyses, opts);
+}
+
+/**
+ * Extract every FSM from a set of files and render each one on its own.
+ *
+ * @param files - Source files to parse together (packages and modules)
+ * @param options - Extract options (module and fsm narrow the selection)
+ * @returns One entry per FSM, in file order, named by fsmFileName
+ */
+export async function extractAllFromFiles(
+  files: SourceFile[],
+  options: Partial<ExtractOptions> = {}
+): Promise<RenderedFSM[]> {
+  const opts = withDefaults(options);
+  const analyses = await extractFSMsFromFiles(files, opts.preprocess);
+
+  return renderAll(analyses, opts);
+}
+
+/**
+ * Get the output file name of an FSM: <module>.<fsm>.mmd or .json.
+ *
+ * Characters other than letters, digits, '_' and '-' become '_'.
+ */
+export function fsmFileName(moduleName: string, fsmName: string, format: ExtractOptions['format']): string {
+  const clean = (name: string) => name.replace(/[^\w-]/g, '_') || 'unnamed';
+  return `${clean(moduleName)}.${clean(fsmName)}.${format === 'json' ? 'json' : 'mmd'}`;
+}
+
+/**
+ * Fill in default extract options.
+ */
+function withDefaults(options: Partial<ExtractOptions>): ExtractOptions {
+  return {
     format: 'mermaid',
     direction: 'TB',
     conditions: true,
@@ -109,26 +378,79 @@ export async function extract(
     warnings: false,
     ...options,
   };
+}
 
-  const analysis = await extractFSMs(source);
+/**
+ * Select an FSM (by module and FSM name) and render it in the requested format.
+ */
+function renderExtraction(analyses: ModuleAnalysis[], opts: ExtractOptions): string {
+  if (opts.all) {
+    return combineRendered(renderAll(analyses, opts), opts.format);
+  }
 
-  if (analysis.fsms.length === 0) {
+  const fsms = selectModules(analyses, opts.module).flatMap((a) => a.fsms);
+  if (fsms.length === 0) {
     throw noFSMError();
   }
 
   // Select FSM
   let fsm: FSM;
   if (opts.fsm) {
-    const found = analysis.fsms.find((f) => f.name === opts.fsm);
+    const found = fsms.find((f) => f.name === opts.fsm);
     if (!found) {
-      throw new Error(`FSM '${opts.fsm}' not found. Available: ${analysis.fsms.map((f) => f.name).join(', ')}`);
+      throw new Error(`FSM '${opts.fsm}' not found. Available: ${fsms.map((f) => f.name).join(', ')}`);
     }
     fsm = found;
   } else {
-    fsm = analysis.fsms[0];
+    fsm = fsms[0];
+  }
+
+  return renderFSM(fsm, opts);
+}
+
+/**
+ * Render every selected FSM on its own.
+ *
+ * File names follow fsmFileName; a repeated name (same module name in two
+ * files, or two FSMs with the same name) gets a _2, _3, ... suffix.
+ */
+function renderAll(analyses: ModuleAnalysis[], opts: ExtractOptions): RenderedFSM[] {
+  const rendered: RenderedFSM[] = [];
+  const usedNames = new Set<string>();
+
+  for (const analysis of selectModules(analyses, opts.module)) {
+    for (const fsm of analysis.fsms) {
+      if (opts.fsm && fsm.name !== opts.fsm) {
+        continue;
+      }
+
+      let fileName = fsmFileName(analysis.moduleName, fsm.name, opts.format);
+      for (let n = 2; usedNames.has(fileName); n++) {
+        fileName = fsmFileName(analysis.moduleName, `${fsm.name}_${n}`, opts.format);
+      }
+      usedNames.add(fileName);
+
+      rendered.push({
+        moduleName: analysis.moduleName,
+        file: analysis.file,
+        fsm,
+        fileName,
+        content: renderFSM(fsm, opts),
+      });
+    }
   }
 
-  // Generate output
+  if (rendered.length === 0) {
+    throw opts.fsm ? new Error(`FSM '${opts.fsm}' not found`) : noFSMError();
+  }
+
+  return rendered;
+}
+
+/**
+ * Render a single FSM in the requested format.
+ */
+function renderFSM(fsm: FSM, opts: ExtractOptions): string {
   if (opts.format === 'json') {
     return generateJSON(fsm);
   }
@@ -151,6 +473,46 @@ export async function extract(
   return output;
 }
 
+/**
+ * Combine rendered FSMs into one document.
+ *
+ * JSON: an array of FSM objects, each with its module name.
+ * Mermaid: Markdown with one "## <module>.<fsm>" section and fenced
+ * diagram per FSM; the heading matches the per-FSM file name.
+ */
+function combineRendered(rendered: RenderedFSM[], format: ExtractOptions['format']): string {
+  if (format === 'json') {
+    return JSON.stringify(
+      rendered.map((r) => ({ module: r.moduleName, ...(r.file ? { file: r.file } : {}), ...r.fsm })),
+      null,
+      2
+    );
+  }
+
+  return rendered
+    .map((r) => {
+      const heading = `## ${r.fileName.replace(/\.mmd$/, '')}`;
+      const source = r.file ? `\nSource: \`${r.file}\`\n` : '';
+      return `${heading}\n${source}\n\`\`\`mermaid\n${r.content}\n\`\`\``;
+    })
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Filter module analyses by module name.
+ */
+function selectModules(analyses: ModuleAnalysis[], moduleName?: string): ModuleAnalysis[] {
+  if (!moduleName) {
+    return analyses;
+  }
+
+  const selected = analyses.filter((a) => a.moduleName === moduleName);
+  if (selected.length === 0) {
+    throw new Error(`Module '${moduleName}' not found. Available: ${analyses.map((a) => a.moduleName).join(', ')}`);
+  }
+  return selected;
+}
+
 /**
  * Quick check if source might contain an FSM.
  *
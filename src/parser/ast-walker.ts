@@ -124,6 +124,24 @@ export function nodeIsType(node: SyntaxNode, ...types: string[]): boolean {
   return types.includes(node.type);
 }
 
+/**
+ * Remove parentheses around an expression: ((a & b)) gives a & b.
+ */
+export function unwrapParentheses(node: SyntaxNode): SyntaxNode {
+  let current = node;
+  for (;;) {
+    const primary = current.type === 'expression' && current.childCount === 1 ? current.children[0] : current;
+    const inner = primary.type === 'primary' && primary.children[0]?.type === '('
+      ? getChildOfType(primary, 'mintypmax_expression')
+      : null;
+    const expression = inner && inner.childCount === 1 ? inner.children[0] : null;
+    if (!expression || expression.type !== 'expression') {
+      return current;
+    }
+    current = expression;
+  }
+}
+
 /**
  * Debug helper: print the AST structure.
  */
@@ -0,0 +1,524 @@
+import type { LineOrigin, ParseError, PreprocessOptions } from '../types.js';
+
+/**
+ * A `define'd text macro.
+ */
+export interface MacroDefinition {
+  params?: string[];                  // Formal arguments of a function-like macro
+  defaults?: Array<string | undefined>; // Default values (`define M(a, b=1))
+  body: string;
+}
+
+export type MacroTable = Map<string, MacroDefinition>;
+
+/**
+ * Output of the preprocessor.
+ */
+export interface PreprocessResult {
+  source: string;                     // Preprocessed text, ready for the parser
+  lineMap: LineOrigin[];              // Origin of each output line (index = line - 1)
+  errors: ParseError[];               // Unresolved includes, unbalanced `ifdef, ...
+}
+
+const CONDITIONAL_DIRECTIVES = new Set(['ifdef', 'ifndef', 'elsif', 'else', 'endif']);
+
+// Directives only recognized at the start of a line
+const LINE_DIRECTIVES = new Set([...CONDITIONAL_DIRECTIVES, 'define', 'undef', 'undefineall', 'include']);
+
+// Directives with no effect on FSM extraction; their lines are blanked
+const IGNORED_DIRECTIVES = new Set([
+  'timescale', 'default_nettype', 'resetall', 'celldefine', 'endcelldefine',
+  'pragma', 'line', 'begin_keywords', 'end_keywords', 'unconnected_drive',
+  'nounconnected_drive', 'default_decay_time', 'default_trireg_strength',
+  'delay_mode_distributed', 'delay_mode_path', 'delay_mode_unit', 'delay_mode_zero',
+]);
+
+const MAX_INCLUDE_DEPTH = 32;
+const MAX_EXPANSION_DEPTH = 64;
+
+/**
+ * State shared by a file and the files it includes.
+ */
+interface PreprocessContext {
+  options: PreprocessOptions;
+  macros: MacroTable;
+  out: string[];
+  lineMap: LineOrigin[];
+  errors: ParseError[];
+  includeStack: string[];
+}
+
+/**
+ * Create a macro table from predefined macros (+define+NAME=value).
+ */
+export function createMacroTable(defines: Record<string, string> = {}): MacroTable {
+  const macros: MacroTable = new Map();
+  for (const [name, value] of Object.entries(defines)) {
+    macros.set(name, { body: value });
+  }
+  return macros;
+}
+
+/**
+ * Run the SystemVerilog preprocessor over a source file.
+ *
+ * Patterns we handle:
+ * - `define ST_IDLE 3'd0            (object-like macros, with \ continuations)
+ * - `define NEXT(s) s + 1           (function-like macros, with defaults)
+ * - `undef NAME, `undefineall
+ * - `ifdef / `ifndef / `elsif / `else / `endif (nested)
+ * - `include "states.svh"           (via options.resolveInclude)
+ * - `` token pasting, `" stringification, `__FILE__ and `__LINE__
+ *
+ * Lines are kept one-to-one with the input wherever possible: directives
+ * and inactive `ifdef branches become blank lines, and multi-line macro
+ * bodies expand onto a single line. Only `include adds lines, so the
+ * returned line map is needed to report original locations.
+ *
+ * @param source - Source text
+ * @param options - Predefined macros and include resolution
+ * @param file - Path of the source, recorded in the line map and errors
+ * @param macros - Macro table to use and update; pass the same table for
+ *                 every file of a compilation unit so macros carry over
+ */
+export function preprocess(
+  source: string,
+  options: PreprocessOptions = {},
+  file?: string,
+  macros: MacroTable = createMacroTable(options.defines)
+): PreprocessResult {
+  const ctx: PreprocessContext = {
+    options,
+    macros,
+    out: [],
+    lineMap: [],
+    errors: [],
+    includeStack: file ? [file] : [],
+  };
+
+  processSource(source, file, ctx);
+
+  return {
+    source: ctx.out.join('\n'),
+    lineMap: ctx.lineMap,
+    errors: ctx.errors,
+  };
+}
+
+/**
+ * Map a line of preprocessed text back to its original location.
+ */
+export function mapLine(lineMap: LineOrigin[], line: number): LineOrigin {
+  return lineMap[line - 1] || { line };
+}
+
+/**
+ * Preprocess one file into the context, recursing into includes.
+ */
+function processSource(source: string, file: string | undefined, ctx: PreprocessContext): void {
+  const lines = source.split(/\r?\n/);
+  const conditions: Array<{ active: boolean; taken: boolean; line: number }> = [];
+  const comment = { open: false };
+
+  const emit = (text: string, line: number) => {
+    ctx.out.push(text);
+    ctx.lineMap.push({ file, line });
+  };
+  const error = (message: string, line: number) => {
+    ctx.errors.push({ kind: 'preprocessor', message, line, file });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    const directive = comment.open ? null : lines[i].match(/^\s*`(\w+)\b\s*(.*)$/);
+    const name = directive ? directive[1] : '';
+    const rest = directive ? directive[2] : '';
+
+    if (CONDITIONAL_DIRECTIVES.has(name)) {
+      const message = applyConditional(name, rest, conditions, ctx.macros, lineNo);
+      if (message) {
+        error(message, lineNo);
+      }
+      emit('', lineNo);
+      continue;
+    }
+
+    if (!conditions.every((c) => c.active)) {
+      emit('', lineNo);
+      continue;
+    }
+
+    if (name === 'define') {
+      // Join \-continued lines; the body expands onto a single line
+      const segments = [rest];
+      while (/\\\s*$/.test(segments[segments.length - 1]) && i + 1 < lines.length) {
+        segments[segments.length - 1] = segments[segments.length - 1].replace(/\\\s*$/, '');
+        segments.push(lines[++i]);
+      }
+      if (!defineMacro(segments.map(stripLineComment).join(' '), ctx.macros)) {
+        error('Malformed `define', lineNo);
+      }
+      for (let line = lineNo; line <= i + 1; line++) {
+        emit('', line);
+      }
+    } else if (name === 'undef') {
+      ctx.macros.delete(rest.trim().split(/\s/)[0]);
+      emit('', lineNo);
+    } else if (name === 'undefineall') {
+      ctx.macros.clear();
+      emit('', lineNo);
+    } else if (name === 'include') {
+      includeFile(stripLineComment(rest), file, lineNo, ctx, error);
+    } else if (IGNORED_DIRECTIVES.has(name)) {
+      emit('', lineNo);
+    } else {
+      emit(expandText(lines[i], ctx, file, lineNo, 0, comment), lineNo);
+    }
+  }
+
+  for (const open of conditions) {
+    error('Missing `endif', open.line);
+  }
+}
+
+/**
+ * Apply a conditional directive to the condition stack.
+ *
+ * @returns An error message, or null
+ */
+function applyConditional(
+  name: string,
+  rest: string,
+  conditions: Array<{ active: boolean; taken: boolean; line: number }>,
+  macros: MacroTable,
+  line: number
+): string | null {
+  const macroName = rest.match(/^(\w+)/)?.[1];
+  const top = conditions[conditions.length - 1];
+
+  switch (name) {
+    case 'ifdef':
+    case 'ifndef': {
+      if (!macroName) {
+        return `Missing macro name after \`${name}`;
+      }
+      const active = macros.has(macroName) === (name === 'ifdef');
+      conditions.push({ active, taken: active, line });
+      return null;
+    }
+    case 'elsif': {
+      if (!top) {
+        return '`elsif without `ifdef';
+      }
+      if (!macroName) {
+        return 'Missing macro name after `elsif';
+      }
+      top.active = !top.taken && macros.has(macroName);
+      top.taken = top.taken || top.active;
+      return null;
+    }
+    case 'else':
+      if (!top) {
+        return '`else without `ifdef';
+      }
+      top.active = !top.taken;
+      top.taken = true;
+      return null;
+    default:
+      if (!top) {
+        return '`endif without `ifdef';
+      }
+      conditions.pop();
+      return null;
+  }
+}
+
+/**
+ * Parse the text after `define and add the macro to the table.
+ *
+ * @returns false if the definition has no macro name
+ */
+function defineMacro(text: string, macros: MacroTable): boolean {
+  const match = text.match(/^\s*(\w+)/);
+  if (!match) {
+    return false;
+  }
+
+  const name = match[1];
+  let body = text.slice(match[0].length);
+
+  // Formal arguments only when '(' immediately follows the name
+  if (body.startsWith('(')) {
+    const args = splitArguments(body, 0);
+    if (!args) {
+      return false;
+    }
+    const params: string[] = [];
+    const defaults: Array<string | undefined> = [];
+    for (const arg of args.values) {
+      const eq = arg.indexOf('=');
+      params.push((eq < 0 ? arg : arg.slice(0, eq)).trim());
+      defaults.push(eq < 0 ? undefined : arg.slice(eq + 1).trim());
+    }
+    macros.set(name, { params, defaults, body: body.slice(args.end).trim() });
+  } else {
+    macros.set(name, { body: body.trim() });
+  }
+
+  return true;
+}
+
+/**
+ * Splice an `include'd file into the output.
+ */
+function includeFile(
+  rest: string,
+  file: string | undefined,
+  line: number,
+  ctx: PreprocessContext,
+  error: (message: string, line: number) => void
+): void {
+  const emitBlank = () => {
+    ctx.out.push('');
+    ctx.lineMap.push({ file, line });
+  };
+
+  const expanded = expandText(rest, ctx, file, line, 0, { open: false });
+  const match = expanded.match(/^\s*(?:"([^"]+)"|<([^>]+)>)/);
+  if (!match) {
+    error('Malformed `include', line);
+    emitBlank();
+    return;
+  }
+
+  const name = match[1] || match[2];
+  const included = ctx.options.resolveInclude ? ctx.options.resolveInclude(name, file) : null;
+  if (!included) {
+    error(`Cannot resolve \`include "${name}"`, line);
+    emitBlank();
+    return;
+  }
+  if (ctx.includeStack.includes(included.path)) {
+    error(`Recursive \`include "${name}"`, line);
+    emitBlank();
+    return;
+  }
+  if (ctx.includeStack.length >= MAX_INCLUDE_DEPTH) {
+    error(`\`include nested too deeply at "${name}"`, line);
+    emitBlank();
+    return;
+  }
+
+  ctx.includeStack.push(included.path);
+  processSource(included.source, included.path, ctx);
+  ctx.includeStack.pop();
+}
+
+/**
+ * Expand macro references in a line of text, leaving comments and
+ * string literals untouched. Directives found here follow other text on
+ * the line and are reported rather than applied.
+ *
+ * @param comment - Tracks an open block comment across lines
+ */
+function expandText(
+  text: string,
+  ctx: PreprocessContext,
+  file: string | undefined,
+  line: number,
+  depth: number,
+  comment: { open: boolean }
+): string {
+  let out = '';
+  let i = 0;
+
+  while (i < text.length) {
+    if (comment.open) {
+      const end = text.indexOf('*/', i);
+      if (end < 0) {
+        return out + text.slice(i);
+      }
+      out += text.slice(i, end + 2);
+      i = end + 2;
+      comment.open = false;
+      continue;
+    }
+
+    const ch = text[i];
+    if (ch === '/' && text[i + 1] === '/') {
+      return out + text.slice(i);
+    }
+    if (ch === '/' && text[i + 1] === '*') {
+      comment.open = true;
+      out += '/*';
+      i += 2;
+      continue;
+    }
+    if (ch === '"') {
+      const end = findStringEnd(text, i);
+      out += text.slice(i, end);
+      i = end;
+      continue;
+    }
+    if (ch === '`') {
+      const ref = text.slice(i).match(/^`(\w+)/);
+      if (ref && depth === 0 && LINE_DIRECTIVES.has(ref[1])) {
+        // state_t s; `ifdef FOO: left as written, so say so
+        ctx.errors.push({
+          kind: 'preprocessor',
+          message: `\`${ref[1]} after other text on a line is not supported`,
+          line,
+          file,
+        });
+      }
+      const expansion = ref ? expandMacro(ref[1], text, i + ref[0].length, ctx, file, line, depth) : null;
+      if (expansion) {
+        out += expansion.text;
+        i = expansion.end;
+        continue;
+      }
+    }
+
+    out += ch;
+    i++;
+  }
+
+  return out;
+}
+
+/**
+ * Expand one macro reference.
+ *
+ * @param pos - Index just past the macro name
+ * @returns The expansion and the index after the reference, or null to
+ *          leave the reference as written (undefined macro)
+ */
+function expandMacro(
+  name: string,
+  text: string,
+  pos: number,
+  ctx: PreprocessContext,
+  file: string | undefined,
+  line: number,
+  depth: number
+): { text: string; end: number } | null {
+  if (name === '__LINE__') {
+    return { text: String(line), end: pos };
+  }
+  if (name === '__FILE__') {
+    return { text: `"${file || ''}"`, end: pos };
+  }
+
+  const macro = ctx.macros.get(name);
+  if (!macro) {
+    return null;
+  }
+
+  if (depth >= MAX_EXPANSION_DEPTH) {
+    ctx.errors.push({ kind: 'preprocessor', message: `Macro expansion too deep at \`${name}`, line, file });
+    return null;
+  }
+
+  let body = macro.body;
+  let end = pos;
+
+  if (macro.params) {
+    const start = text.slice(pos).match(/^\s*/)![0].length + pos;
+    const args = text[start] === '(' ? splitArguments(text, start) : null;
+    if (!args) {
+      ctx.errors.push({ kind: 'preprocessor', message: `Missing arguments for \`${name}`, line, file });
+      return null;
+    }
+    end = args.end;
+
+    const values = macro.params.map((_, idx) => {
+      const actual = args.values[idx];
+      return actual !== undefined && actual.trim() !== '' ? actual.trim() : macro.defaults?.[idx] ?? '';
+    });
+    if (macro.params.length > 0) {
+      const paramPattern = new RegExp(`\\b(${macro.params.map(escapeRegExp).join('|')})\\b`, 'g');
+      body = body.replace(paramPattern, (param) => values[macro.params!.indexOf(param)]);
+    }
+  }
+
+  // `` joins tokens, `" quotes inside macro bodies
+  body = body.replace(/``/g, '').replace(/`\\`"/g, '\\"').replace(/`"/g, '"');
+
+  return {
+    text: expandText(body, ctx, file, line, depth + 1, { open: false }),
+    end,
+  };
+}
+
+/**
+ * Split a parenthesized, comma-separated argument list.
+ *
+ * @param open - Index of the opening parenthesis
+ * @returns Top-level arguments and the index after the closing
+ *          parenthesis, or null if unterminated
+ */
+function splitArguments(text: string, open: number): { values: string[]; end: number } | null {
+  const values: string[] = [];
+  let nesting = 0;
+  let current = '';
+
+  for (let i = open + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      const end = findStringEnd(text, i);
+      current += text.slice(i, end);
+      i = end - 1;
+    } else if (ch === '(' || ch === '[' || ch === '{') {
+      nesting++;
+      current += ch;
+    } else if ((ch === ')' || ch === ']' || ch === '}') && nesting > 0) {
+      nesting--;
+      current += ch;
+    } else if (ch === ')') {
+      values.push(current);
+      return { values, end: i + 1 };
+    } else if (ch === ',' && nesting === 0) {
+      values.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the index just past the string literal starting at `start`.
+ */
+function findStringEnd(text: string, start: number): number {
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '"') {
+      return i + 1;
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Remove a trailing // comment that is outside string literals.
+ */
+function stripLineComment(text: string): string {
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '"') {
+      i = findStringEnd(text, i) - 1;
+    } else if (text[i] === '/' && text[i + 1] === '/') {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+/**
+ * Escape a string for use inside a RegExp.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -114,6 +114,30 @@ export function isResetSignalName(name: string): boolean {
   return RESET_SIGNAL_PATTERNS.some((pattern) => pattern.test(name));
 }
 
+// Strip a package scope from a name: my_pkg::IDLE -> IDLE
+export function stripPackageScope(name: string): string {
+  const match = name.trim().match(/^(?:\w+\s*::\s*)+(\w+)$/);
+  return match ? match[1] : name.trim();
+}
+
+// Find the colon that ends a case item label, skipping '::' scopes and [a:b] ranges
+export function findCaseLabelColon(itemText: string): number {
+  let depth = 0;
+  for (let i = 0; i < itemText.length; i++) {
+    const ch = itemText[i];
+    if (ch === '[' || ch === '(' || ch === '{') depth++;
+    else if (ch === ']' || ch === ')' || ch === '}') depth--;
+    else if (ch === ':' && depth === 0) {
+      if (itemText[i + 1] === ':') {
+        i++; // Skip package scope operator
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+}
+
 // Variables that should NOT be considered state variables
 export const STATE_VAR_EXCLUSIONS = [
   /state_machine_enable/i,
@@ -0,0 +1,596 @@
+import type { SyntaxNode } from './ast-walker.js';
+import { getNodeText, getNodeLine, getChildOfType } from './ast-walker.js';
+
+/**
+ * Statement IR built from tree-sitter nodes.
+ *
+ * Procedural code is reduced to the few shapes FSM extraction cares about
+ * (blocks, assignments, if/else, case); everything else is kept as an
+ * opaque 'other' statement. Every statement carries its exact line.
+ */
+export type Statement =
+  | BlockStatement
+  | AssignStatement
+  | IfStatement
+  | CaseStatement
+  | ReturnStatement
+  | OtherStatement;
+
+export interface BlockStatement {
+  kind: 'block';
+  statements: Statement[];
+  line: number;
+  node: SyntaxNode;
+}
+
+export interface AssignStatement {
+  kind: 'assign';
+  target: string;               // Full lvalue text, e.g. "next_state" or "out[1]"
+  operator: string;             // "=", "<=", "+=", ...
+  value: string;                // Right-hand side text
+  valueNode: SyntaxNode | null;
+  isBlocking: boolean;
+  line: number;
+  node: SyntaxNode;
+}
+
+export interface IfStatement {
+  kind: 'if';
+  condition: string;
+  then: Statement;
+  else?: Statement;             // An IfStatement for else-if chains
+  qualifier?: 'unique' | 'unique0' | 'priority';
+  line: number;
+  node: SyntaxNode;
+}
+
+export interface CaseStatement {
+  kind: 'case';
+  keyword: 'case' | 'casez' | 'casex';
+  qualifier?: 'unique' | 'unique0' | 'priority';
+  isInside: boolean;            // case (x) inside ... endcase
+  expression: string;
+  items: CaseBranch[];
+  line: number;
+  node: SyntaxNode;
+}
+
+export interface CaseBranch {
+  labels: string[];             // Label expressions; empty for default
+  isDefault: boolean;
+  body: Statement;              // Empty block for a null statement (";")
+  line: number;
+  node: SyntaxNode;
+}
+
+export interface ReturnStatement {
+  kind: 'return';
+  value?: string;               // Missing for a bare "return;"
+  valueNode: SyntaxNode | null;
+  line: number;
+  node: SyntaxNode;
+}
+
+export interface OtherStatement {
+  kind: 'other';
+  text: string;                 // Subroutine calls, loops, waits, ...
+  line: number;
+  node: SyntaxNode;
+}
+
+/**
+ * An assignment together with the guards that lead to it.
+ */
+export interface GuardedAssignment {
+  assign: AssignStatement;
+  guards: string[];             // Conditions that must all hold, outermost first
+  branch: Statement;            // Innermost if/case branch body (or the root)
+  isPriority: boolean;          // Under a priority if/case: earlier branches win
+}
+
+const QUALIFIERS = new Set(['unique', 'unique0', 'priority']);
+
+/**
+ * Build the statement IR for a procedural node.
+ *
+ * Patterns we handle:
+ * - begin ... end (named or not; declarations are skipped)
+ * - a = b; a <= b; a += b; (blocking, non-blocking, operator assignments)
+ * - if / else if / else chains, with unique/priority qualifiers
+ * - case / casez / casex / case ... inside, with unique/priority qualifiers
+ * - #delay / @event prefixes (the controlled statement is kept)
+ * - function and task bodies; return x; (kept as a ReturnStatement)
+ * - for / foreach loops (the body, as run by one iteration)
+ *
+ * @param node - always_construct, statement, statement_or_null,
+ *               statement_item or any of the node types above
+ */
+export function buildStatement(node: SyntaxNode): Statement {
+  switch (node.type) {
+    case 'always_construct':
+    case 'statement':
+    case 'statement_or_null':
+    case 'function_statement':
+    case 'function_statement_or_null':
+    case 'procedural_timing_control_statement': {
+      const inner = node.namedChildren.find((c: SyntaxNode) => isStatementNode(c));
+      return inner ? buildStatement(inner) : emptyBlock(node);
+    }
+    case 'statement_item': {
+      const inner = node.namedChildren[0];
+      return inner ? buildStatement(inner) : emptyBlock(node);
+    }
+    case 'function_declaration':
+    case 'task_declaration': {
+      const body = node.namedChildren.find(
+        (c: SyntaxNode) => c.type === 'function_body_declaration' || c.type === 'task_body_declaration'
+      );
+      return body ? buildStatement(body) : emptyBlock(node);
+    }
+    case 'function_body_declaration':
+    case 'task_body_declaration':
+    case 'seq_block':
+    case 'par_block':
+      return {
+        kind: 'block',
+        statements: node.namedChildren
+          .filter((c: SyntaxNode) => isStatementNode(c))
+          .map((c: SyntaxNode) => buildStatement(c)),
+        line: getNodeLine(node),
+        node,
+      };
+    case 'blocking_assignment':
+    case 'nonblocking_assignment':
+    case 'operator_assignment':
+      return buildAssignment(node);
+    case 'conditional_statement':
+      return buildIf(node);
+    case 'jump_statement':
+      return buildReturn(node);
+    case 'loop_statement': {
+      // for (int i = 0; i < N; i++) state_d[i] = ...: per-element logic
+      const keyword = node.children[0]?.type;
+      const body = node.namedChildren.find((c: SyntaxNode) => isStatementNode(c));
+      if ((keyword === 'for' || keyword === 'foreach') && body) {
+        return buildStatement(body);
+      }
+      return { kind: 'other', text: getNodeText(node), line: getNodeLine(node), node };
+    }
+    case 'case_statement':
+      return buildCase(node);
+    default:
+      return {
+        kind: 'other',
+        text: getNodeText(node),
+        line: getNodeLine(node),
+        node,
+      };
+  }
+}
+
+/**
+ * Check if a node is a statement (or a wrapper of one).
+ */
+function isStatementNode(node: SyntaxNode): boolean {
+  return node.type === 'statement' ||
+    node.type === 'statement_or_null' ||
+    node.type === 'statement_item' ||
+    node.type === 'function_statement' ||
+    node.type === 'function_statement_or_null';
+}
+
+/**
+ * Empty block for null statements (";").
+ */
+function emptyBlock(node: SyntaxNode): BlockStatement {
+  return { kind: 'block', statements: [], line: getNodeLine(node), node };
+}
+
+/**
+ * Build an assignment from blocking_assignment / nonblocking_assignment.
+ */
+function buildAssignment(node: SyntaxNode): Statement {
+  const inner = getChildOfType(node, 'operator_assignment') || node;
+  const lvalue = getChildOfType(inner, 'variable_lvalue') || getChildOfType(inner, 'net_lvalue');
+  const valueNode = getChildOfType(inner, 'expression');
+  const operatorNode = getChildOfType(inner, 'assignment_operator');
+
+  if (!lvalue || !valueNode) {
+    return { kind: 'other', text: getNodeText(node), line: getNodeLine(node), node };
+  }
+
+  const isBlocking = node.type !== 'nonblocking_assignment';
+  return {
+    kind: 'assign',
+    target: getNodeText(lvalue).replace(/\s+/g, ''),
+    operator: operatorNode ? getNodeText(operatorNode).trim() : isBlocking ? '=' : '<=',
+    value: getNodeText(valueNode).trim(),
+    valueNode,
+    isBlocking,
+    line: getNodeLine(node),
+    node,
+  };
+}
+
+/**
+ * Build a return statement; other jumps (break, continue) stay opaque.
+ */
+function buildReturn(node: SyntaxNode): Statement {
+  if (!getNodeText(node).trim().startsWith('return')) {
+    return { kind: 'other', text: getNodeText(node), line: getNodeLine(node), node };
+  }
+  const valueNode = getChildOfType(node, 'expression');
+  return {
+    kind: 'return',
+    value: valueNode ? getNodeText(valueNode).trim() : undefined,
+    valueNode,
+    line: getNodeLine(node),
+    node,
+  };
+}
+
+/**
+ * Build an if statement from a conditional_statement.
+ *
+ * The grammar flattens "if (a) x; else if (b) y; else z;" into one node
+ * with alternating predicates and branches; it is rebuilt as nested ifs.
+ */
+function buildIf(node: SyntaxNode): IfStatement {
+  const predicates: SyntaxNode[] = [];
+  const branches: SyntaxNode[] = [];
+  let qualifier: IfStatement['qualifier'];
+
+  for (const child of node.namedChildren) {
+    if (child.type === 'cond_predicate') {
+      predicates.push(child);
+    } else if (child.type === 'statement_or_null') {
+      branches.push(child);
+    } else if (child.type === 'unique_priority') {
+      qualifier = getQualifier(child);
+    }
+  }
+
+  // Build from the last else-if outwards
+  let elseStmt: Statement | undefined =
+    branches.length > predicates.length ? buildStatement(branches[branches.length - 1]) : undefined;
+
+  for (let i = predicates.length - 1; i >= 0; i--) {
+    const ifStmt: IfStatement = {
+      kind: 'if',
+      condition: getNodeText(predicates[i]).trim(),
+      then: branches[i] ? buildStatement(branches[i]) : emptyBlock(node),
+      else: elseStmt,
+      line: i === 0 ? getNodeLine(node) : getNodeLine(predicates[i]),
+      node,
+    };
+    elseStmt = ifStmt;
+  }
+
+  const result = elseStmt as IfStatement;
+  if (qualifier) {
+    result.qualifier = qualifier;
+  }
+  return result;
+}
+
+/**
+ * Build a case statement.
+ */
+function buildCase(node: SyntaxNode): CaseStatement {
+  const keywordNode = getChildOfType(node, 'case_keyword');
+  const keywordText = keywordNode ? getNodeText(keywordNode).trim() : 'case';
+  const qualifierNode = getChildOfType(node, 'unique_priority');
+  const expressionNode = getChildOfType(node, 'case_expression');
+
+  const items: CaseBranch[] = [];
+  for (const child of node.namedChildren) {
+    if (child.type === 'case_item' || child.type === 'case_inside_item') {
+      items.push(buildCaseBranch(child));
+    }
+  }
+
+  return {
+    kind: 'case',
+    keyword: keywordText === 'casez' || keywordText === 'casex' ? keywordText : 'case',
+    qualifier: qualifierNode ? getQualifier(qualifierNode) : undefined,
+    isInside: node.children.some((c: SyntaxNode) => c.type === 'inside'),
+    expression: expressionNode ? getNodeText(expressionNode).trim() : '',
+    items,
+    line: getNodeLine(node),
+    node,
+  };
+}
+
+/**
+ * Build one case item (labels and body).
+ */
+function buildCaseBranch(node: SyntaxNode): CaseBranch {
+  const labels: string[] = [];
+  for (const child of node.namedChildren) {
+    if (child.type === 'case_item_expression') {
+      labels.push(getNodeText(child).trim());
+    } else if (child.type === 'range_list' || child.type === 'open_range_list') {
+      for (const range of child.namedChildren) {
+        labels.push(getNodeText(range).trim());
+      }
+    }
+  }
+
+  const bodyNode = getChildOfType(node, 'statement_or_null');
+  return {
+    labels,
+    isDefault: node.children.some((c: SyntaxNode) => c.type === 'default'),
+    body: bodyNode ? buildStatement(bodyNode) : emptyBlock(node),
+    line: getNodeLine(node),
+    node,
+  };
+}
+
+/**
+ * Read a unique_priority node.
+ */
+function getQualifier(node: SyntaxNode): 'unique' | 'unique0' | 'priority' | undefined {
+  const text = getNodeText(node).trim();
+  return QUALIFIERS.has(text) ? (text as 'unique' | 'unique0' | 'priority') : undefined;
+}
+
+/**
+ * Collect every assignment under a statement with the guards leading to it.
+ *
+ * An else branch contributes the negated condition, and a branch of a
+ * nested case contributes "expr == label" (or the negation of every other
+ * label, for default). Assignments come back in source order.
+ *
+ * @param stmt - Statement to search
+ * @param guards - Guards already in effect (e.g. from an enclosing if)
+ */
+export function collectAssignments(stmt: Statement, guards: string[] = []): GuardedAssignment[] {
+  const results: GuardedAssignment[] = [];
+  collectInto(stmt, guards, stmt, false, results);
+  return results;
+}
+
+function collectInto(
+  stmt: Statement,
+  guards: string[],
+  branch: Statement,
+  isPriority: boolean,
+  results: GuardedAssignment[]
+): void {
+  switch (stmt.kind) {
+    case 'assign':
+      results.push({ assign: stmt, guards, branch, isPriority });
+      break;
+    case 'block':
+      for (const child of stmt.statements) {
+        collectInto(child, guards, branch, isPriority, results);
+      }
+      break;
+    case 'if': {
+      const priority = isPriority || stmt.qualifier === 'priority';
+      collectInto(stmt.then, [...guards, stmt.condition], stmt.then, priority, results);
+      if (stmt.else) {
+        collectInto(stmt.else, [...guards, negateCondition(stmt.condition)], stmt.else, priority, results);
+      }
+      break;
+    }
+    case 'case': {
+      const priority = isPriority || stmt.qualifier === 'priority';
+      for (const item of stmt.items) {
+        collectInto(item.body, [...guards, ...caseBranchGuards(stmt, item)], item.body, priority, results);
+      }
+      break;
+    }
+    case 'return':
+    case 'other':
+      break;
+  }
+}
+
+/**
+ * Guards under which a case branch is taken.
+ *
+ * Plain labels compare with ==; casez/casex/inside labels holding
+ * wildcard digits compare with ==?, and inside ranges use "inside {...}".
+ * The guards of each branch do not exclude earlier overlapping labels; a
+ * priority case marks that through GuardedAssignment.isPriority.
+ */
+export function caseBranchGuards(caseStmt: CaseStatement, item: CaseBranch): string[] {
+  if (!item.isDefault) {
+    return [item.labels.map((label) => labelGuard(caseStmt, label, false)).join(' || ')];
+  }
+
+  const others = caseStmt.items.filter((i) => !i.isDefault).flatMap((i) => i.labels);
+  return others.map((label) => labelGuard(caseStmt, label, true));
+}
+
+/**
+ * Build the comparison of the case expression against one label.
+ */
+function labelGuard(caseStmt: CaseStatement, label: string, negate: boolean): string {
+  const expr = caseStmt.expression;
+  if (caseStmt.isInside && label.startsWith('[')) {
+    const inside = `${expr} inside {${label}}`;
+    return negate ? `!(${inside})` : inside;
+  }
+
+  const wildcard =
+    caseStmt.keyword === 'casez' ? /'[sS]?[bBoOhH].*[?zZ]/ :
+    caseStmt.keyword === 'casex' || caseStmt.isInside ? /'[sS]?[bBoOhH].*[?xXzZ]/ :
+    null;
+  if (wildcard && wildcard.test(label)) {
+    return `${expr} ${negate ? '!=?' : '==?'} ${label}`;
+  }
+  return `${expr} ${negate ? '!=' : '=='} ${label}`;
+}
+
+/**
+ * Negate a condition: a -> !a, (a && b) -> !(a && b), !a -> a.
+ */
+export function negateCondition(condition: string): string {
+  const trimmed = condition.trim();
+  if (/^!\s*\w+$/.test(trimmed)) {
+    return trimmed.replace(/^!\s*/, '');
+  }
+  if (trimmed.startsWith('!') && isWrapped(trimmed)) {
+    return trimmed.slice(1).trim().slice(1, -1).trim();
+  }
+  if (/^[\w.]+$/.test(trimmed) || isWrapped(trimmed)) {
+    return `!${trimmed}`;
+  }
+  return `!(${trimmed})`;
+}
+
+/**
+ * Join guards into one condition, parenthesizing terms that contain ||
+ * or a ternary so the && binds as written.
+ */
+export function joinGuards(guards: string[]): string {
+  if (guards.length === 1) {
+    return guards[0];
+  }
+  return guards
+    .map((g) => (/\|\||\?/.test(g) && !isWrapped(g) ? `(${g})` : g))
+    .join(' && ');
+}
+
+/**
+ * Check if a transition guard and a list of guards require the same && terms,
+ * in any order and regardless of spacing and parentheses.
+ */
+export function isSameCondition(rawCondition: string, guards: string[]): boolean {
+  const normalize = (terms: string[]) =>
+    Array.from(new Set(terms.map((term) => term.replace(/\s+/g, '').replace(/\((!?\w+)\)/g, '$1')))).sort();
+  const a = normalize(splitConjuncts(rawCondition));
+  const b = normalize(guards.flatMap(splitConjuncts));
+  return a.length === b.length && a.every((term, i) => term === b[i]);
+}
+
+/**
+ * Split a condition at its top-level && operators, looking through
+ * parentheses around the whole condition and around each term.
+ */
+export function splitConjuncts(condition: string): string[] {
+  let text = condition.trim();
+  while (text.startsWith('(') && findClosingParen(text) === text.length - 1) {
+    text = text.slice(1, -1).trim();
+  }
+
+  const terms: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if ('([{'.includes(text[i])) {
+      depth++;
+    } else if (')]}'.includes(text[i])) {
+      depth--;
+    } else if (depth === 0 && text.startsWith('&&', i)) {
+      terms.push(text.slice(start, i));
+      start = i + 2;
+      i++;
+    }
+  }
+  terms.push(text.slice(start));
+
+  return terms.length === 1 ? [text] : terms.flatMap(splitConjuncts);
+}
+
+/**
+ * Find the parenthesis closing the one at the start of a text.
+ */
+function findClosingParen(text: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    } else if (text[i] === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Check if a condition is a single parenthesized (or negated) group.
+ */
+function isWrapped(condition: string): boolean {
+  const text = condition.trim().replace(/^!/, '');
+  if (!text.startsWith('(') || !text.endsWith(')')) {
+    return false;
+  }
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    if (text[i] === ')') depth--;
+    if (depth === 0 && i < text.length - 1) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * One arm of a conditional-operator value.
+ */
+export interface ValueArm {
+  value: string;
+  guards: string[];             // Conditions selecting this arm, outermost first
+}
+
+/**
+ * Split an assigned value into the arms of its conditional operators.
+ *
+ * Patterns we handle:
+ * - c ? A : B                  -> A when c, B when !c
+ * - c1 ? A : c2 ? B : C        -> A; B when !c1 && c2; C when !c1 && !c2
+ * - c1 ? (c2 ? A : B) : C      (parenthesized arms)
+ *
+ * A value without a conditional operator comes back as a single
+ * unguarded arm.
+ *
+ * @param valueNode - Right-hand side expression node
+ * @param value - Right-hand side text (used when there is no node)
+ */
+export function splitConditionalValue(valueNode: SyntaxNode | null, value: string): ValueArm[] {
+  const conditional = valueNode ? findConditional(valueNode) : null;
+  const [conditionNode, thenNode, elseNode] = conditional ? conditional.namedChildren : [];
+  if (!conditionNode || !thenNode || !elseNode) {
+    // (IDLE) -> IDLE
+    return [{ value: value.trim().replace(/^\(\s*([\w:]+)\s*\)$/, '$1'), guards: [] }];
+  }
+
+  const condition = getNodeText(conditionNode).trim();
+  const prefix = (arms: ValueArm[], guard: string): ValueArm[] =>
+    arms.map((arm) => ({ value: arm.value, guards: [guard, ...arm.guards] }));
+
+  return [
+    ...prefix(splitConditionalValue(thenNode, getNodeText(thenNode)), condition),
+    ...prefix(splitConditionalValue(elseNode, getNodeText(elseNode)), negateCondition(condition)),
+  ];
+}
+
+/**
+ * Find the conditional_expression an expression consists of, looking
+ * through wrapping expression nodes and parentheses.
+ */
+function findConditional(node: SyntaxNode): SyntaxNode | null {
+  let current: SyntaxNode | null = node;
+  while (current) {
+    if (current.type === 'conditional_expression') {
+      return current;
+    }
+    if (current.type === 'primary') {
+      // ( expr ) parses as primary > mintypmax_expression > expression
+      const inner = getChildOfType(current, 'mintypmax_expression');
+      current = inner && inner.namedChildCount === 1 ? inner.namedChildren[0] : null;
+      continue;
+    }
+    if ((current.type === 'expression' || current.type === 'mintypmax_expression') &&
+        current.namedChildCount === 1) {
+      current = current.namedChildren[0];
+      continue;
+    }
+    return null;
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+import type { SyntaxNode } from './ast-walker.js';
+import { walkTree, getNodeLine } from './ast-walker.js';
+import type { ParseError } from '../types.js';
+
+const MAX_SNIPPET_LENGTH = 120;
+const MAX_TOKEN_LENGTH = 40;
+
+/**
+ * Collect the syntax errors tree-sitter recovered from.
+ *
+ * Patterns we handle:
+ * - ERROR nodes: tokens the grammar could not place (reported once per
+ *   ERROR subtree, at its first token)
+ * - MISSING nodes: tokens the parser inserted to keep going, e.g. a
+ *   missing 'endcase' or ';'
+ *
+ * @param root - Root node to search (error-free subtrees are skipped)
+ * @param source - Text the tree was parsed from, for snippets
+ */
+export function detectParseErrors(root: SyntaxNode, source: string): ParseError[] {
+  const errors: ParseError[] = [];
+  const lines = source.split('\n');
+
+  walkTree(root, (node) => {
+    if (!node.hasError && !node.isMissing) {
+      return true;
+    }
+
+    if (node.isMissing) {
+      errors.push(makeError(node, 'missing', `Missing '${node.type}'`, lines));
+      return true;
+    }
+
+    if (node.isError) {
+      const token = node.text.trim().split('\n')[0];
+      const near = token.length > MAX_TOKEN_LENGTH ? `${token.slice(0, MAX_TOKEN_LENGTH)}...` : token;
+      errors.push(makeError(node, 'syntax', near ? `Syntax error near '${near}'` : 'Syntax error', lines));
+      return true;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Build a ParseError at a node's start position.
+ */
+function makeError(
+  node: SyntaxNode,
+  kind: ParseError['kind'],
+  message: string,
+  lines: string[]
+): ParseError {
+  const line = getNodeLine(node);
+  const text = (lines[line - 1] || '').trim();
+  return {
+    kind,
+    message,
+    line,
+    column: node.startPosition.column + 1,
+    snippet: text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH)}...` : text,
+  };
+}
@@ -3,39 +3,58 @@ export interface FSMOutput {
   signal: string;             // e.g., "enable"
   value: string;              // e.g., "1'b1"
   line: number;
+  condition?: string;         // Input guard of a per-state Mealy output
+  isInherited?: boolean;      // Value of a default assignment, not written for this state
+  kind?: OutputKind;
 }
 
+// How an output follows the state:
+// - moore: combinational, from the current state
+// - mealy: combinational, from the current state and inputs
+// - registered-next-state: flop loaded from next_state, valid in the state entered
+// - registered-transition: flop loaded on the clock edge a transition out of the state is taken
+export type OutputKind = 'moore' | 'mealy' | 'registered-next-state' | 'registered-transition';
+
 export interface FSMState {
+  id?: string;                // Stable ID from name and location (see getStateId)
   name: string;
   encoding?: string;          // e.g., "2'b00"
   line: number;
+  file?: string;              // Set when declared in an `include'd file
   isDefault?: boolean;
   outputs: FSMOutput[];       // Moore outputs: depend only on state
+  mealyOutputs?: FSMOutput[]; // Input-guarded outputs written per state (not on a transition)
+  effectiveOutputs?: FSMOutput[]; // Every output's value in this state, defaults included
   comment?: string;           // Extracted from nearby comments
   isUnreachable?: boolean;    // No incoming transitions (except reset)
   isTerminal?: boolean;       // No outgoing transitions
 }
 
 export interface FSMTransition {
+  id?: string;                  // Stable ID from states, location and guard (see getTransitionId)
   from: string;
   to: string;
   condition?: string;           // Simplified guard (e.g., "start")
   rawCondition?: string;        // Original code before simplification
   line: number;
+  file?: string;                // Set when written in an `include'd file
   priority?: number;            // For priority case / overlapping conditions
   isDefault?: boolean;          // From default/wildcard case
   isSelfLoop?: boolean;         // Staying in same state
   isImplicit?: boolean;         // Inferred from default assignment
+  isGlobal?: boolean;           // Written outside the state case; applies from every state
   sourceBlock: 'always_ff' | 'always_comb' | 'always';
   outputs: FSMOutput[];         // Mealy outputs: depend on state + inputs
+  effectiveOutputs?: FSMOutput[]; // Source state's effective outputs with this transition's applied
 }
 
 export interface FSMWarning {
   type: 'unreachable_state' | 'terminal_state' | 'missing_case' |
-        'no_reset' | 'implicit_default';
+        'no_reset' | 'implicit_default' | 'parse_error' | 'unhandled_encoding';
   message: string;
   line?: number;
   states?: string[];            // Affected states
+  encodings?: string[];         // Affected codes (unhandled_encoding)
 }
 
 export interface FSM {
@@ -58,6 +77,35 @@ export interface FSM {
   errors: string[];             // Non-fatal parse issues
   inputSignals: string[];       // Signals that appear in conditions
   outputSignals: string[];      // Signals assigned in states/transitions
+  regions?: SourceLocation[];   // Always blocks the FSM was extracted from
+  instances?: FSMInstances;     // Set when one FSM is replicated per channel
+  unusedEncodings?: UnusedEncodings; // Set when the state width leaves codes unused
+  defaultOutputs?: FSMOutput[]; // Output defaults assigned before the state case
+}
+
+// Codes of the state type that no state uses (illegal encodings)
+export interface UnusedEncodings {
+  width: number;                // Bit width of the state type
+  count: number;                // 2^width minus the codes in use
+  codes: string[];              // e.g., ["3'b101", "3'b110"]; the first 64 at most
+  recoveryState?: string;       // Where the default case item goes from an unused code
+}
+
+// Replication of an FSM over a state register array or generate loop
+export interface FSMInstances {
+  count?: number;               // Resolved instance count
+  countExpr: string;            // Count as written, e.g., "NUM_CH"
+  indexVar?: string;            // Loop variable or genvar, e.g., "i"
+  scope?: string;               // Generate block label, e.g., "g_ch"
+}
+
+// Effective output values per state (see getOutputTable)
+export interface OutputTable {
+  signals: string[];            // Columns, in assignment order
+  rows: Array<{
+    state: string;
+    values: Record<string, FSMOutput>; // Missing when the state leaves a signal unassigned
+  }>;
 }
 
 // What we can detect vs what we infer
@@ -72,8 +120,39 @@ export interface DetectionMetadata {
 // Support for multiple FSMs per module
 export interface ModuleAnalysis {
   moduleName: string;
+  file?: string;                // Source file path (multi-file extraction)
   fsms: FSM[];                  // Can have multiple FSMs
-  parseErrors: string[];
+  parseErrors: ParseError[];
+}
+
+// Syntax error the parser recovered from, or a preprocessor diagnostic
+export interface ParseError {
+  kind: 'syntax' | 'missing' | 'preprocessor';
+  message: string;              // e.g., "Missing 'endcase'"
+  line: number;
+  column?: number;
+  file?: string;                // Set for multi-file extraction and includes
+  snippet?: string;             // Source line as seen by the parser
+  fsms?: string[];              // FSMs whose always blocks contain the error
+}
+
+// Input file for multi-file extraction
+export interface SourceFile {
+  path: string;
+  source: string;
+}
+
+// Preprocessor options (`define, `ifdef, `include)
+export interface PreprocessOptions {
+  defines?: Record<string, string>;   // Predefined macros (+define+NAME=value)
+  // Return the text of an `include'd file, or null if not found
+  resolveInclude?: (name: string, fromFile?: string) => SourceFile | null;
+}
+
+// Original location of a preprocessed line
+export interface LineOrigin {
+  file?: string;                // Undefined for the top-level source
+  line: number;
 }
 
 // Mermaid output options
@@ -82,6 +161,8 @@ export interface MermaidOptions {
   showConditions: boolean;
   showOutputs: boolean;
   showSelfLoops: boolean;
+  compactGlobalTransitions?: boolean; // One "any state" edge per global transition
+  showInheritedOutputs?: boolean;     // Also list outputs a state takes from the defaults
 }
 
 // CLI options
@@ -94,10 +175,22 @@ export interface ExtractOptions {
   warnings: boolean;
   module?: string;
   fsm?: string;
+  all?: boolean;                // Emit every FSM instead of the first
+  preprocess?: PreprocessOptions;
+}
+
+// One FSM rendered for output in "all FSMs" mode
+export interface RenderedFSM {
+  moduleName: string;
+  file?: string;                // Source file (multi-file extraction)
+  fsm: FSM;
+  fileName: string;             // <module>.<fsm>.mmd or <module>.<fsm>.json
+  content: string;              // Mermaid diagram or JSON for this FSM alone
 }
 
 // Source location for click-to-source
 export interface SourceLocation {
+  file?: string;                // Set when in an `include'd file
   line: number;
   column?: number;
   endLine?: number;
@@ -110,17 +203,25 @@ export interface EnumDefinition {
   states: Array<{
     name: string;
     encoding?: string;
+    value?: number;             // Evaluated encoding (parameters and casts resolved)
     line: number;
   }>;
   line: number;
+  kind?: 'enum' | 'parameter';  // 'parameter' for localparam/parameter state sets
+  width?: number;               // Bit width of the enum base type
 }
 
+// Enum definitions declared in each package, keyed by package name
+export type PackageSymbolTable = Map<string, EnumDefinition[]>;
+
 // State register variable found in source
 export interface StateRegister {
   varName: string;
   typeName?: string;
   isNextState: boolean;
   line: number;
+  arraySize?: string;           // Element count of an array (state_q [NUM_CH])
+  width?: number;               // Bits of an untyped register (reg [1:0] state)
 }
 
 // Always block information
@@ -24,6 +24,16 @@ export function validateCoverage(fsm: FSM, metadata?: DetectionMetadata): FSMWar
     });
   }
 
+  // Unused codes must lead back to a state (default: next_state = IDLE;)
+  const unused = fsm.unusedEncodings;
+  if (unused && !unused.recoveryState) {
+    warnings.push({
+      type: 'unhandled_encoding',
+      message: `${unused.count} unused encoding(s) of the ${unused.width}-bit state type have no recovery: no default case item leads to a known state`,
+      encodings: unused.codes,
+    });
+  }
+
   // Check for implicit defaults (self-loops inferred)
   if (metadata?.hasImplicitSelfLoops) {
     const implicitStates = fsm.transitions
@@ -169,9 +179,10 @@ export function checkNonDeterminism(fsm: FSM): Array<{
   const issues: Array<{ state: string; conditions: string[] }> = [];
 
   for (const [state, transitions] of byState) {
-    // Filter to non-default transitions with conditions
+    // Filter to non-default transitions with conditions; overlaps between
+    // priority-ordered transitions are resolved by their priority
     const conditionalTransitions = transitions.filter(
-      (t) => !t.isDefault && t.condition
+      (t) => !t.isDefault && t.condition && t.priority === undefined
     );
 
     // If there are multiple conditional transitions to different states,
@@ -0,0 +1,31 @@
+import type { FSM, FSMWarning, ParseError } from '../types.js';
+
+/**
+ * Validate that the FSM's always blocks parsed cleanly.
+ *
+ * A syntax error inside the transition or state-register block usually
+ * means the parser skipped part of the case statement, so the diagram may
+ * be missing states or transitions. Each matching error also records the
+ * FSM name in ParseError.fsms.
+ *
+ * @param file - File of the FSM's module; regions without a file of their
+ *               own are in it, and errors must be in the same file
+ */
+export function validateParseErrors(fsm: FSM, errors: ParseError[], file?: string): FSMWarning[] {
+  const regions = fsm.regions || [];
+  const inside = errors.filter((error) =>
+    regions.some(
+      (r) => (r.file ?? file) === error.file && error.line >= r.line && error.line <= (r.endLine ?? r.line)
+    )
+  );
+
+  for (const error of inside) {
+    error.fsms = [...(error.fsms || []), fsm.name];
+  }
+
+  return inside.map((error) => ({
+    type: 'parse_error',
+    message: `${error.message} at line ${error.line} inside the FSM logic; diagram may be incomplete`,
+    line: error.line,
+  }));
+}
@@ -3,7 +3,18 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import { parseSystemVerilog } from '../src/parser/tree-sitter-init.js';
 import { findNodesOfType, getNodeText } from '../src/parser/ast-walker.js';
-import { mightContainFSM } from '../src/index.js';
+import {
+  mightContainFSM,
+  extract,
+  extractAll,
+  extractFSMs,
+  extractFSMsFromFiles,
+  detectEnumDefinitions,
+  evaluateConstant,
+  getOutputTable,
+  generateMermaid,
+  generateMermaidWithClickHandlers,
+} from '../src/index.js';
 
 const fixturesDir = join(import.meta.dirname, 'fixtures');
 
@@ -282,3 +293,1493 @@ describe('Validator unit tests', () => {
     expect(terminalWarning?.states).toContain('STUCK');
   });
 });
+
+describe('localparam/parameter state machines', () => {
+  it('should use parameter encodings as states', async () => {
+    const [analysis] = await extractFSMs(loadFixture('verilog-fsm.sv'));
+    expect(analysis.fsms.length).toBe(1);
+
+    const fsm = analysis.fsms[0];
+    expect(fsm.states.map((s) => s.name)).toEqual(['IDLE', 'RUN', 'DONE_STATE']);
+    expect(fsm.states[2].encoding).toBe("2'b10");
+    expect(fsm.encoding).toBe('binary');
+    expect(fsm.resetState).toBe('IDLE');
+    expect(fsm.confidenceBreakdown.stateDetection).toBe(0.9);
+  });
+
+  it('should keep unhandled localparam states from the same declaration', async () => {
+    const source = `
+      module lp_fsm(input logic clk, input logic rst, input logic go);
+        localparam WIDTH = 8;
+        localparam [1:0] IDLE = 2'b00, RUN = 2'b01, SPARE = 2'b11;
+        reg [1:0] state;
+        always @(posedge clk) begin
+          if (rst) state <= IDLE;
+          else case (state)
+            IDLE: if (go) state <= RUN;
+            RUN: state <= IDLE;
+          endcase
+        end
+      endmodule
+    `;
+    const [analysis] = await extractFSMs(source);
+    const fsm = analysis.fsms[0];
+    expect(fsm.states.map((s) => s.name)).toEqual(['IDLE', 'RUN', 'SPARE']);
+    expect(fsm.transitions.some((t) => t.from === 'IDLE' && t.to === 'RUN')).toBe(true);
+    expect(fsm.warnings.some((w) => w.type === 'missing_case' && w.states?.includes('SPARE'))).toBe(true);
+  });
+});
+
+describe('Multi-file extraction', () => {
+  const pkgSource = `
+    package fsm_pkg;
+      typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+    endpackage
+  `;
+
+  it('should resolve enums imported from a package file', async () => {
+    const moduleSource = `
+      module top import fsm_pkg::*; (input logic clk, input logic rst_n, input logic go);
+        state_t state, next_state;
+        always_ff @(posedge clk or negedge rst_n)
+          if (!rst_n) state <= IDLE;
+          else state <= next_state;
+        always_comb begin
+          next_state = state;
+          case (state)
+            IDLE: if (go) next_state = RUN;
+            RUN: next_state = DONE;
+            DONE: next_state = IDLE;
+          endcase
+        end
+      endmodule
+    `;
+    const analyses = await extractFSMsFromFiles([
+      { path: 'fsm_pkg.sv', source: pkgSource },
+      { path: 'top.sv', source: moduleSource },
+    ]);
+
+    expect(analyses.length).toBe(1);
+    expect(analyses[0].file).toBe('top.sv');
+    const fsm = analyses[0].fsms[0];
+    expect(fsm.name).toBe('state_t');
+    expect(fsm.states.map((s) => s.name)).toEqual(['IDLE', 'RUN', 'DONE']);
+    expect(fsm.resetState).toBe('IDLE');
+  });
+
+  it('should return one analysis per module across files', async () => {
+    const analyses = await extractFSMsFromFiles([
+      { path: 'simple-fsm.sv', source: loadFixture('simple-fsm.sv') },
+      { path: 'one-block-fsm.sv', source: loadFixture('one-block-fsm.sv') },
+    ]);
+
+    expect(analyses.map((a) => a.moduleName)).toEqual(['simple_fsm', 'one_block_fsm']);
+    expect(analyses[0].fsms[0].stateVarName).toBe('state');
+    expect(analyses[0].fsms[0].nextStateVarName).toBe('next_state');
+    expect(analyses[1].fsms[0].blockStyle).toBe('one-block');
+  });
+
+  it('should resolve scope-qualified state names', async () => {
+    const moduleSource = `
+      module top (input logic clk, input logic go);
+        import fsm_pkg::state_t;
+        fsm_pkg::state_t state, next_state;
+        always_comb begin
+          next_state = state;
+          case (state)
+            fsm_pkg::IDLE: if (go) next_state = fsm_pkg::RUN;
+            fsm_pkg::RUN: next_state = fsm_pkg::DONE;
+          endcase
+        end
+      endmodule
+    `;
+    const analyses = await extractFSMsFromFiles([
+      { path: 'fsm_pkg.sv', source: pkgSource },
+      { path: 'top.sv', source: moduleSource },
+    ]);
+
+    const fsm = analyses[0].fsms[0];
+    expect(fsm.stateVarName).toBe('state');
+    const explicit = fsm.transitions.filter((t) => !t.isImplicit);
+    expect(explicit.map((t) => `${t.from}->${t.to}`)).toEqual(['IDLE->RUN', 'RUN->DONE']);
+  });
+});
+
+describe('Multi-module sources', () => {
+  const source = `
+module producer (input logic clk, input logic rst_n, input logic go);
+  typedef enum logic [1:0] { IDLE, FILL, DONE } state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = FILL;
+      FILL: next_state = DONE;
+      DONE: next_state = IDLE;
+    endcase
+  end
+endmodule
+
+module consumer (input logic clk, input logic rst_n, input logic req);
+  typedef enum logic { WAIT, TAKE } state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= WAIT; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      WAIT: if (req) next_state = TAKE;
+      TAKE: next_state = WAIT;
+    endcase
+  end
+endmodule
+`;
+
+  it('should return one analysis per module with its own FSMs', async () => {
+    const analyses = await extractFSMs(source);
+    expect(analyses.map((a) => a.moduleName)).toEqual(['producer', 'consumer']);
+    expect(analyses[0].fsms.map((f) => f.states.map((s) => s.name))).toEqual([['IDLE', 'FILL', 'DONE']]);
+    expect(analyses[1].fsms.map((f) => f.states.map((s) => s.name))).toEqual([['WAIT', 'TAKE']]);
+    expect(analyses[1].fsms[0].resetState).toBe('WAIT');
+  });
+
+  it('should select a module with the module option', async () => {
+    const output = await extract(source, { module: 'consumer', format: 'json' });
+    expect(JSON.parse(output).states.map((s: { name: string }) => s.name)).toEqual(['WAIT', 'TAKE']);
+    await expect(extract(source, { module: 'missing' })).rejects.toThrow(/Available: producer, consumer/);
+  });
+});
+
+describe('State register pairs', () => {
+  it('should pair prefixed next-state registers with their state registers', async () => {
+    const [result] = await extractFSMs(loadFixture('multi-fsm.sv'));
+    expect(result.fsms.map((f) => `${f.stateVarName}/${f.nextStateVarName}`)).toEqual([
+      'tx_state/tx_next_state',
+      'rx_state/rx_next_state',
+    ]);
+  });
+
+  it('should not take a register ending in next_state as the next state of another register', async () => {
+    const [result] = await extractFSMs(`
+module m (input logic clk, rst_n, go, output logic busy);
+  typedef enum logic {IDLE, RUN} state_t;
+  state_t state, saved_next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE;
+    else case (state)
+      IDLE: if (go) state <= RUN;
+      RUN: state <= IDLE;
+    endcase
+  always_ff @(posedge clk)
+    if (go) saved_next_state <= state;
+endmodule`);
+    const fsm = result.fsms.find((f) => f.stateVarName === 'state')!;
+    expect(fsm.nextStateVarName).toBeUndefined();
+    expect(fsm.blockStyle).toBe('one-block');
+    expect(fsm.transitions.map((t) => `${t.from}->${t.to}`)).toEqual(['IDLE->RUN', 'RUN->IDLE']);
+  });
+});
+
+describe('All-FSM output', () => {
+  it('should render every FSM with predictable file names', async () => {
+    const rendered = await extractAll(loadFixture('multi-fsm.sv'));
+    expect(rendered.map((r) => r.fileName)).toEqual([
+      'uart_controller.tx_state_t.mmd',
+      'uart_controller.rx_state_t.mmd',
+    ]);
+    expect(rendered[1].content).toContain('RX_IDLE --> RX_START');
+  });
+
+  it('should combine FSMs into one document or a JSON array', async () => {
+    const source = loadFixture('multi-fsm.sv');
+
+    const markdown = await extract(source, { all: true });
+    expect(markdown).toContain('## uart_controller.tx_state_t\n');
+    expect(markdown).toContain('## uart_controller.rx_state_t\n');
+    expect(markdown.match(/```mermaid/g)).toHaveLength(2);
+
+    const json = JSON.parse(await extract(source, { all: true, format: 'json' }));
+    expect(json.map((f: { module: string; name: string }) => `${f.module}/${f.name}`)).toEqual([
+      'uart_controller/tx_state_t',
+      'uart_controller/rx_state_t',
+    ]);
+  });
+});
+
+describe('Parse errors', () => {
+  it('should report syntax errors and flag the FSM they fall in', async () => {
+    const source = `module m (input logic clk, input logic rst_n, input logic go);
+  typedef enum logic [1:0] { IDLE, RUN, DONE } state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: next_state = DONE +;
+      DONE: next_state = IDLE;
+    endcase
+  end
+endmodule`;
+
+    const [analysis] = await extractFSMs(source);
+    expect(analysis.parseErrors).toHaveLength(1);
+    expect(analysis.parseErrors[0]).toMatchObject({
+      kind: 'syntax',
+      line: 10,
+      snippet: 'RUN: next_state = DONE +;',
+      fsms: ['state_t'],
+    });
+    expect(analysis.parseErrors[0].column).toBeGreaterThan(0);
+
+    const warning = analysis.fsms[0].warnings.find((w) => w.type === 'parse_error');
+    expect(warning?.line).toBe(10);
+  });
+
+  it('should not flag an FSM for an error at the same line of an included file', async () => {
+    const source = `module m (input logic clk, input logic rst_n, input logic go);
+  \`include "regs.svh"
+  typedef enum logic [1:0] { IDLE, RUN, DONE } state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: next_state = DONE;
+      DONE: next_state = IDLE;
+    endcase
+  end
+endmodule`;
+    const regs = ['logic a;', 'logic b;', 'logic c;', 'logic d;', 'logic e;', 'logic f;', 'logic g;', 'logic h;', 'logic [3:0] x = 4 +;'];
+
+    const [analysis] = await extractFSMs(source, {
+      resolveInclude: (name) => ({ path: name, source: regs.join('\n') }),
+    });
+    const error = analysis.parseErrors.find((e) => e.kind === 'syntax');
+    expect(error).toMatchObject({ file: 'regs.svh', line: 9 });
+    expect(error?.fsms).toBeUndefined();
+    expect(analysis.fsms[0].warnings.some((w) => w.type === 'parse_error')).toBe(false);
+  });
+
+  it('should report no errors for clean sources', async () => {
+    const [analysis] = await extractFSMs(loadFixture('simple-fsm.sv'));
+    expect(analysis.parseErrors).toEqual([]);
+  });
+});
+
+describe('Statement structure', () => {
+  const source = `
+module m (input logic clk, rst_n, go, stop, a, b);
+  typedef enum logic [1:0] {IDLE, RUN, PAUSE} state_t;
+  state_t state, next_state;
+  logic busy;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    busy = 1'b0;
+    case (state)
+      IDLE: begin
+        if (go &&
+            (a || b)) begin
+          next_state = RUN;
+        end
+      end
+      RUN: begin
+        busy = 1'b1;
+        if (stop) begin
+          if (a) begin
+            next_state = PAUSE;
+          end else begin
+            next_state = IDLE;
+          end
+        end
+      end
+      PAUSE: if (go) next_state = RUN;
+             else if (stop) next_state = IDLE;
+    endcase
+  end
+endmodule`;
+
+  it('should report nested transitions at their own lines with full conditions', async () => {
+    const [analysis] = await extractFSMs(source);
+    const fsm = analysis.fsms[0];
+    const explicit = fsm.transitions
+      .filter((t) => !t.isImplicit)
+      .map((t) => ({ from: t.from, to: t.to, condition: t.condition, line: t.line }));
+
+    expect(explicit).toEqual([
+      { from: 'IDLE', to: 'RUN', condition: 'go && (a || b)', line: 15 },
+      { from: 'RUN', to: 'PAUSE', condition: 'stop && a', line: 22 },
+      { from: 'RUN', to: 'IDLE', condition: 'stop && !a', line: 24 },
+      { from: 'PAUSE', to: 'RUN', condition: 'go', line: 28 },
+      { from: 'PAUSE', to: 'IDLE', condition: '!go && stop', line: 29 },
+    ]);
+  });
+
+  it('should read outputs from nested begin/end blocks', async () => {
+    const [analysis] = await extractFSMs(source);
+    const run = analysis.fsms[0].states.find((s) => s.name === 'RUN');
+    expect(run?.outputs?.map((o) => `${o.signal}=${o.value}`)).toEqual(["busy=1'b1"]);
+  });
+});
+
+describe('Ternary next-state assignments', () => {
+  it('should produce one guarded transition per arm', async () => {
+    const source = `
+module m (input logic clk, rst_n, start, done, err);
+  typedef enum logic [1:0] {IDLE, RUN, FAIL} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    case (state)
+      IDLE: next_state = start ? RUN : IDLE;
+      RUN: next_state = err ? FAIL : (done ? IDLE : RUN);
+      FAIL: if (start) next_state = (err) ? FAIL : IDLE;
+    endcase
+  end
+endmodule`;
+
+    const [analysis] = await extractFSMs(source);
+    const transitions = analysis.fsms[0].transitions.map((t) => ({
+      from: t.from,
+      to: t.to,
+      rawCondition: t.rawCondition,
+      line: t.line,
+    }));
+
+    expect(transitions).toEqual([
+      { from: 'IDLE', to: 'RUN', rawCondition: 'start', line: 9 },
+      { from: 'IDLE', to: 'IDLE', rawCondition: '!start', line: 9 },
+      { from: 'RUN', to: 'FAIL', rawCondition: 'err', line: 10 },
+      { from: 'RUN', to: 'IDLE', rawCondition: '!err && done', line: 10 },
+      { from: 'RUN', to: 'RUN', rawCondition: '!err && !done', line: 10 },
+      { from: 'FAIL', to: 'FAIL', rawCondition: 'start && (err)', line: 11 },
+      { from: 'FAIL', to: 'IDLE', rawCondition: 'start && !(err)', line: 11 },
+    ]);
+  });
+});
+
+describe('Nested case statements', () => {
+  it('should turn inner case items into guards', async () => {
+    const source = `
+module m (input logic clk, rst_n, valid, input logic [1:0] opcode, cmd);
+  typedef enum logic [1:0] {IDLE, RUN, LOAD, STORE} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (valid)
+        case (cmd)
+          2'd0: next_state = RUN;
+          default: next_state = IDLE;
+        endcase
+      RUN: case (opcode)
+        OP_A: next_state = LOAD;
+        OP_B, OP_C: next_state = STORE;
+        default: next_state = IDLE;
+      endcase
+      LOAD, STORE: next_state = IDLE;
+    endcase
+  end
+endmodule`;
+
+    const [analysis] = await extractFSMs(source);
+    const fsm = analysis.fsms[0];
+    expect(fsm.states.map((s) => s.name).sort()).toEqual(['IDLE', 'LOAD', 'RUN', 'STORE']);
+
+    const transitions = fsm.transitions
+      .filter((t) => t.from === 'IDLE' || t.from === 'RUN')
+      .map((t) => `${t.from}->${t.to} [${t.condition}] @${t.line}`);
+    expect(transitions).toEqual([
+      "IDLE->RUN [valid && cmd == 2'd0] @12",
+      "IDLE->IDLE [valid && cmd != 2'd0] @13",
+      'RUN->LOAD [opcode == OP_A] @16',
+      'RUN->STORE [opcode == OP_B || opcode == OP_C] @17',
+      'RUN->IDLE [opcode != OP_A && opcode != OP_B && opcode != OP_C] @18',
+    ]);
+  });
+
+  it('should not count inner case labels as states', async () => {
+    const source = `
+module m (input logic clk, rst_n, input logic [1:0] opcode);
+  localparam IDLE = 2'd0, RUN = 2'd1, DONE = 2'd2;
+  localparam [1:0] OP_A = 2'd0, OP_B = 2'd1;
+  reg [1:0] state, next_state;
+  always @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always @(*) begin
+    next_state = state;
+    case (state)
+      IDLE: next_state = RUN;
+      RUN: case (opcode)
+        OP_A: next_state = DONE;
+        OP_B: next_state = IDLE;
+      endcase
+      DONE: next_state = IDLE;
+    endcase
+  end
+endmodule`;
+
+    const [analysis] = await extractFSMs(source);
+    const fsm = analysis.fsms[0];
+    expect(fsm.states.map((s) => s.name).sort()).toEqual(['DONE', 'IDLE', 'RUN']);
+    expect(fsm.transitions.find((t) => t.to === 'DONE')?.condition).toBe('opcode == OP_A');
+  });
+});
+
+describe('Case label semantics', () => {
+  const header = `
+module m (input logic clk, rst_n, go, err, input logic [1:0] req);
+  typedef enum logic [2:0] {IDLE = 3'b000, WAIT = 3'b001, RUN = 3'b100, DONE = 3'b101} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;`;
+
+  it('should expand multi-label items into per-state transitions', async () => {
+    const [analysis] = await extractFSMs(`${header}
+    case (state)
+      IDLE, WAIT: if (go) next_state = RUN;
+      RUN, DONE: next_state = IDLE;
+    endcase
+  end
+endmodule`);
+    const transitions = analysis.fsms[0].transitions.map((t) => `${t.from}->${t.to}`);
+    expect(transitions).toEqual(['IDLE->RUN', 'WAIT->RUN', 'RUN->IDLE', 'DONE->IDLE']);
+  });
+
+  it('should resolve casez wildcard labels against state encodings', async () => {
+    const [analysis] = await extractFSMs(`${header}
+    casez (state)
+      3'b00?: if (go) next_state = RUN;
+      3'b1??: next_state = IDLE;
+      3'b101: next_state = WAIT;
+    endcase
+  end
+endmodule`);
+    const transitions = analysis.fsms[0].transitions
+      .filter((t) => !t.isImplicit)
+      .map((t) => `${t.from}->${t.to}`);
+    // 3'b101 (DONE) is already taken by 3'b1??
+    expect(transitions).toEqual(['IDLE->RUN', 'WAIT->RUN', 'RUN->IDLE', 'DONE->IDLE']);
+  });
+
+  it('should resolve case inside ranges and wildcards', async () => {
+    const [analysis] = await extractFSMs(`${header}
+    case (state) inside
+      [IDLE:WAIT]: if (go) next_state = RUN;
+      3'b1?1: next_state = IDLE;
+      default: next_state = IDLE;
+    endcase
+  end
+endmodule`);
+    const transitions = analysis.fsms[0].transitions
+      .filter((t) => !t.isImplicit)
+      .map((t) => `${t.from}->${t.to}`);
+    expect(transitions).toEqual(['IDLE->RUN', 'WAIT->RUN', 'DONE->IDLE', 'RUN->IDLE']);
+  });
+
+  it('should take the transitions of states only the default item covers from it', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst_n, go, done);
+  typedef enum logic [2:0] {IDLE = 3'b000, WAIT = 3'b001, RUN = 3'b010, DONE = 3'b011, ERR = 3'b100} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    unique casez (state)
+      3'b000: if (go) next_state = WAIT;
+      3'b001: next_state = RUN;
+      3'b01?: if (done) next_state = IDLE;
+      default: next_state = IDLE;
+    endcase
+  end
+endmodule`);
+    const fsm = analysis.fsms[0];
+    const fromErr = fsm.transitions.filter((t) => t.from === 'ERR');
+    expect(fromErr.map((t) => [t.to, t.isDefault, !!t.isImplicit])).toEqual([['IDLE', true, false]]);
+    expect(fsm.warnings.some((w) => w.type === 'missing_case')).toBe(false);
+  });
+
+  it('should number priority branches and use wildcard guards', async () => {
+    const [analysis] = await extractFSMs(`${header}
+    unique case (state)
+      IDLE: priority casez (req)
+        2'b1?: next_state = RUN;
+        2'b?1: next_state = WAIT;
+      endcase
+      WAIT: unique if (go) next_state = RUN;
+            else if (err) next_state = IDLE;
+      RUN, DONE: next_state = IDLE;
+    endcase
+  end
+endmodule`);
+    const fsm = analysis.fsms[0];
+    const fromIdle = fsm.transitions.filter((t) => t.from === 'IDLE');
+    expect(fromIdle.map((t) => [t.to, t.condition, t.priority])).toEqual([
+      ['RUN', "req ==? 2'b1?", 1],
+      ['WAIT', "req ==? 2'b?1", 2],
+    ]);
+
+    const fromWait = fsm.transitions.filter((t) => t.from === 'WAIT');
+    expect(fromWait.every((t) => t.priority === undefined)).toBe(true);
+  });
+});
+
+describe('Reverse-case one-hot FSMs', () => {
+  it('should map bit positions to states and report onehot encoding', async () => {
+    const [analysis] = await extractFSMs(loadFixture('onehot-fsm.sv'));
+    expect(analysis.fsms).toHaveLength(1);
+
+    const fsm = analysis.fsms[0];
+    expect(fsm.encoding).toBe('onehot');
+    expect(fsm.resetState).toBe('IDLE_B');
+    expect(fsm.states.map((s) => [s.name, s.encoding])).toEqual([
+      ['IDLE_B', "3'b001"],
+      ['RUN_B', "3'b010"],
+      ['DONE_B', "3'b100"],
+    ]);
+    expect(fsm.transitions.map((t) => `${t.from}->${t.to} [${t.condition ?? ''}] @${t.line}`)).toEqual([
+      'IDLE_B->RUN_B [start] @30',
+      'IDLE_B->IDLE_B [!start] @31',
+      'RUN_B->DONE_B [done] @35',
+      'RUN_B->RUN_B [!done] @36',
+      'DONE_B->IDLE_B [] @38',
+    ]);
+    expect(fsm.states.find((s) => s.name === 'RUN_B')?.outputs.map((o) => o.signal)).toEqual(['busy']);
+  });
+
+  it('should name literal bit positions', async () => {
+    const source = `
+module m (input logic clk, rst_n, go);
+  logic [1:0] state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= 2'b01; else state <= next_state;
+  always_comb begin
+    next_state = '0;
+    unique case (1'b1)
+      state[0]: if (go) next_state[1] = 1'b1; else next_state[0] = 1'b1;
+      state[1]: next_state[0] = 1'b1;
+    endcase
+  end
+endmodule`;
+
+    const [analysis] = await extractFSMs(source);
+    const fsm = analysis.fsms[0];
+    expect(fsm.states.map((s) => s.name)).toEqual(['S0', 'S1']);
+    expect(fsm.resetState).toBe('S0');
+    expect(fsm.transitions.map((t) => `${t.from}->${t.to}`)).toEqual(['S0->S1', 'S0->S0', 'S1->S0']);
+  });
+});
+
+describe('If/else-if state dispatch', () => {
+  it('should extract the same FSM as the equivalent case statement', async () => {
+    const body = (dispatch: string) => `
+module m (input logic clk, rst_n, go, done, output logic busy);
+  typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    busy = 1'b0;
+${dispatch}
+  end
+endmodule`;
+
+    const [viaCase] = await extractFSMs(body(`    case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: begin busy = 1'b1; if (done) next_state = DONE; end
+      default: next_state = IDLE;
+    endcase`));
+    const [viaIf] = await extractFSMs(body(`    if (state == IDLE) begin if (go) next_state = RUN; end
+    else if (RUN == state) begin busy = 1'b1; if (done) next_state = DONE; end
+    else next_state = IDLE;`));
+
+    const summarize = (fsm: (typeof viaCase.fsms)[number]) => ({
+      states: fsm.states.map((s) => [s.name, s.outputs.map((o) => o.signal)]),
+      transitions: fsm.transitions.map((t) => `${t.from}->${t.to} [${t.condition ?? ''}]`),
+      resetState: fsm.resetState,
+      blockStyle: fsm.blockStyle,
+    });
+    expect(viaIf.fsms).toHaveLength(1);
+    expect(summarize(viaIf.fsms[0])).toEqual(summarize(viaCase.fsms[0]));
+  });
+
+  it('should handle one-block chains with reset and guarded comparisons', async () => {
+    const source = `
+module m (input logic clk, rst_n, go, stop);
+  typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+  state_t state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE;
+    else if (state == IDLE && go) state <= RUN;
+    else if (state == RUN && stop) state <= IDLE;
+    else if (state == RUN) state <= DONE;
+    else if (state inside {DONE}) state <= IDLE;
+endmodule`;
+
+    const [analysis] = await extractFSMs(source);
+    const fsm = analysis.fsms[0];
+    expect(fsm.blockStyle).toBe('one-block');
+    expect(fsm.resetState).toBe('IDLE');
+    expect(fsm.transitions.map((t) => `${t.from}->${t.to} [${t.condition ?? ''}] @${t.line}`)).toEqual([
+      'IDLE->RUN [go] @7',
+      'RUN->IDLE [stop] @8',
+      'RUN->DONE [!stop] @9',
+      'DONE->IDLE [] @10',
+    ]);
+  });
+});
+
+describe('Global override transitions', () => {
+  const source = `
+module m (input logic clk, rst_n, enable, go, abort);
+  typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    if (enable) begin
+      case (state)
+        IDLE: if (go) next_state = RUN;
+        RUN: next_state = DONE;
+        DONE: next_state = IDLE;
+      endcase
+    end
+    if (abort) next_state = IDLE;
+  end
+endmodule`;
+
+  it('should add enclosing guards and override conditions to case transitions', async () => {
+    const [analysis] = await extractFSMs(source);
+    const local = analysis.fsms[0].transitions.filter((t) => !t.isGlobal);
+    expect(local.map((t) => `${t.from}->${t.to} [${t.condition}]`)).toEqual([
+      'IDLE->RUN [enable && go && !abort]',
+      'RUN->DONE [enable && !abort]',
+      'DONE->IDLE [enable && !abort]',
+    ]);
+  });
+
+  it('should add an abort transition from every state', async () => {
+    const [analysis] = await extractFSMs(source);
+    const global = analysis.fsms[0].transitions.filter((t) => t.isGlobal);
+    expect(global.map((t) => `${t.from}->${t.to} [${t.condition}] @${t.line}`)).toEqual([
+      'IDLE->IDLE [abort] @16',
+      'RUN->IDLE [abort] @16',
+      'DONE->IDLE [abort] @16',
+    ]);
+  });
+
+  it('should render global transitions once from any state', async () => {
+    const mermaid = await extract(source);
+    expect(mermaid).toContain('state "any state" as any_state');
+    expect(mermaid).toContain('any_state --> IDLE: abort');
+    expect(mermaid).not.toContain('RUN --> IDLE: abort');
+  });
+
+  it('should let state assignments override a guarded default before the case', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst_n, go, abort);
+  typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    if (abort) next_state = IDLE;
+    case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: next_state = DONE;
+      DONE: ;
+    endcase
+  end
+endmodule`);
+    const global = analysis.fsms[0].transitions.filter((t) => t.isGlobal);
+    expect(global.map((t) => `${t.from}->${t.to} [${t.condition}]`)).toEqual([
+      'IDLE->IDLE [abort && !go]',
+      'DONE->IDLE [abort]',
+    ]);
+  });
+
+  it('should apply overrides to states only the default item handles', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst_n, go, abort);
+  typedef enum logic [1:0] {IDLE, RUN, DONE, ERR} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: next_state = DONE;
+      default: next_state = ERR;
+    endcase
+    if (abort) next_state = IDLE;
+  end
+endmodule`);
+    const fromErr = analysis.fsms[0].transitions.filter((t) => t.from === 'ERR');
+    expect(fromErr.map((t) => `${t.to} [${t.condition}]${t.isGlobal ? ' global' : ''}`)).toEqual([
+      'ERR [!abort]',
+      'IDLE [abort] global',
+    ]);
+  });
+});
+
+describe('Subroutine next-state logic', () => {
+  it('should inline a next-state function at its call site', async () => {
+    const source = `
+module m (input logic clk, rst_n, go, done);
+  typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+  state_t state, next_state;
+
+  function automatic state_t next_st(input state_t cur, input logic start, input logic fin);
+    next_st = cur;
+    case (cur)
+      IDLE: if (start) next_st = RUN;
+      RUN: return fin ? DONE : RUN;
+      DONE: next_st = IDLE;
+    endcase
+  endfunction
+
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb next_state = next_st(.cur(state), .start(go), .fin(done));
+endmodule`;
+    const [result] = await extractFSMs(source);
+    expect(result.fsms).toHaveLength(1);
+    const fsm = result.fsms[0];
+    expect(fsm.states.map((s) => s.name)).toEqual(['IDLE', 'RUN', 'DONE']);
+    expect(fsm.transitions.map((t) => `${t.from}->${t.to} [${t.condition ?? ''}]`)).toEqual([
+      'IDLE->RUN [go]',
+      'RUN->DONE [done]',
+      'RUN->RUN [!done]',
+      'DONE->IDLE []',
+    ]);
+    expect(fsm.resetState).toBe('IDLE');
+  });
+
+  it('should inline a task that writes the next state through an output', async () => {
+    const source = `
+module m (input logic clk, rst_n, go, stop);
+  typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+  state_t state, next_state;
+
+  task automatic compute(input state_t s, output state_t ns);
+    ns = s;
+    if (s == IDLE) begin
+      if (go) ns = RUN;
+    end else if (s == RUN) begin
+      if (stop) ns = DONE;
+    end else if (s == DONE) ns = IDLE;
+  endtask
+
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb compute(state, next_state);
+endmodule`;
+    const [result] = await extractFSMs(source);
+    expect(result.fsms).toHaveLength(1);
+    expect(result.fsms[0].transitions.map((t) => `${t.from}->${t.to} [${t.condition ?? ''}]`)).toEqual([
+      'IDLE->RUN [go]',
+      'RUN->DONE [stop]',
+      'DONE->IDLE []',
+    ]);
+  });
+
+  it('should take the states only a function default handles from its return', async () => {
+    const source = `
+module m (input logic clk, rst_n, go, done);
+  typedef enum logic [1:0] {IDLE, RUN, DONE, ERR} state_t;
+  state_t state, next_state;
+
+  function automatic state_t next_st(input state_t cur, input logic start, input logic fin);
+    case (cur)
+      IDLE: return start ? RUN : IDLE;
+      RUN: return fin ? DONE : RUN;
+      DONE: return IDLE;
+      default: return IDLE;
+    endcase
+  endfunction
+
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb next_state = next_st(state, go, done);
+endmodule`;
+    const [result] = await extractFSMs(source);
+    const fsm = result.fsms[0];
+    expect(fsm.transitions.filter((t) => t.from === 'ERR').map((t) => `${t.to} [${t.condition ?? ''}]`)).toEqual([
+      'IDLE []',
+    ]);
+    expect(fsm.warnings.some((w) => w.type === 'missing_case')).toBe(false);
+  });
+
+  it('should bind each FSM to the arguments of its own call', async () => {
+    const source = `
+module m (input logic clk, rst_n, go_a, done_a, go_b, done_b);
+  localparam IDLE = 2'd0, RUN = 2'd1, DONE = 2'd2;
+  logic [1:0] a_state_q, a_state_d, b_state_q, b_state_d;
+
+  function automatic logic [1:0] next_st(input logic [1:0] cur, input logic start, input logic fin);
+    next_st = cur;
+    case (cur)
+      IDLE: if (start) next_st = RUN;
+      RUN: if (fin) next_st = DONE;
+      DONE: next_st = IDLE;
+    endcase
+  endfunction
+
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) a_state_q <= IDLE; else a_state_q <= a_state_d;
+  always_comb a_state_d = next_st(a_state_q, go_a, done_a);
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) b_state_q <= IDLE; else b_state_q <= b_state_d;
+  always_comb b_state_d = next_st(b_state_q, go_b, done_b);
+endmodule`;
+    const [result] = await extractFSMs(source);
+    expect(
+      result.fsms.map((fsm) => `${fsm.stateVarName}: ${fsm.transitions.map((t) => t.condition ?? '').join(', ')}`)
+    ).toEqual(['a_state_q: go_a, done_a, ', 'b_state_q: go_b, done_b, ']);
+  });
+});
+
+describe('Relative next-state values', () => {
+  const transitionsOf = async (source: string) => {
+    const [result] = await extractFSMs(source);
+    expect(result.fsms).toHaveLength(1);
+    return result.fsms[0].transitions.map((t) => `${t.from}->${t.to} [${t.condition ?? ''}]`);
+  };
+
+  it('should evaluate enum methods in declaration order', async () => {
+    const transitions = await transitionsOf(`
+module m (input logic clk, rst_n, step, back, skip);
+  typedef enum logic [1:0] {S0 = 2'd0, S1 = 2'd2, S2 = 2'd1, S3 = 2'd3} state_t;
+  state_t state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= S0;
+    else case (state)
+      S0: if (step) state <= state.next();
+      S1: if (back) state <= state.prev(); else if (skip) state <= state.next(2);
+      S2: state <= state.last();
+      S3: state <= state.next();
+    endcase
+endmodule`);
+    expect(transitions).toEqual([
+      'S0->S1 [step]',
+      'S1->S0 [back]',
+      'S1->S3 [!back && skip]',
+      'S2->S3 []',
+      'S3->S0 []',
+    ]);
+  });
+
+  it('should evaluate arithmetic on encodings, casts and the current state', async () => {
+    const transitions = await transitionsOf(`
+module m (input logic clk, rst_n, go, hold);
+  typedef enum logic [1:0] {A, B, C} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= state_t'(0); else state <= next_state;
+  always_comb begin
+    case (state)
+      A: next_state = go ? state_t'(state + 1) : state;
+      B: next_state = state + 2'd1;
+      C: next_state = state_t'(state - 2);
+      default: next_state = A;
+    endcase
+  end
+endmodule`);
+    expect(transitions).toEqual(['A->B [go]', 'A->A [!go]', 'B->C []', 'C->A []']);
+  });
+});
+
+describe('Replicated FSMs', () => {
+  it('should report a state register array as one FSM with an instance count', async () => {
+    const [result] = await extractFSMs(`
+module m #(parameter int NUM_CH = 4) (input logic clk, rst_n, input logic [NUM_CH-1:0] go, done);
+  typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+  state_t state_q [NUM_CH], state_d [0:NUM_CH-1];
+  always_ff @(posedge clk or negedge rst_n)
+    foreach (state_q[i])
+      if (!rst_n) state_q[i] <= IDLE; else state_q[i] <= state_d[i];
+  always_comb
+    for (int i = 0; i < NUM_CH; i++) begin
+      state_d[i] = state_q[i];
+      case (state_q[i])
+        IDLE: if (go[i]) state_d[i] = RUN;
+        RUN: if (done[i]) state_d[i] = DONE;
+        DONE: state_d[i] = IDLE;
+      endcase
+    end
+endmodule`);
+    expect(result.fsms).toHaveLength(1);
+    const fsm = result.fsms[0];
+    expect(fsm.stateVarName).toBe('state_q');
+    expect(fsm.nextStateVarName).toBe('state_d');
+    expect(fsm.resetState).toBe('IDLE');
+    expect(fsm.transitions.map((t) => `${t.from}->${t.to} [${t.condition ?? ''}]`)).toEqual([
+      'IDLE->RUN [go[i]]',
+      'RUN->DONE [done[i]]',
+      'DONE->IDLE []',
+    ]);
+    expect(fsm.instances).toEqual({ countExpr: 'NUM_CH', count: 4, indexVar: 'i' });
+    expect(fsm.inputSignals).toEqual(['go', 'done']);
+  });
+
+  it('should report an FSM inside a generate loop once with its scope', async () => {
+    const [result] = await extractFSMs(`
+module m #(parameter int NUM_CH = 2) (input logic clk, rst_n, input logic [NUM_CH-1:0] go);
+  typedef enum logic {IDLE, RUN} state_t;
+  for (genvar g = 0; g <= NUM_CH - 1; g++) begin : g_ch
+    state_t state, next_state;
+    always_ff @(posedge clk or negedge rst_n)
+      if (!rst_n) state <= IDLE; else state <= next_state;
+    always_comb begin
+      next_state = state;
+      if (state == IDLE && go[g]) next_state = RUN;
+      else if (state == RUN) next_state = IDLE;
+    end
+  end
+endmodule`);
+    expect(result.fsms).toHaveLength(1);
+    expect(result.fsms[0].transitions.map((t) => `${t.from}->${t.to}`)).toEqual(['IDLE->RUN', 'RUN->IDLE']);
+    expect(result.fsms[0].instances).toEqual({ countExpr: 'NUM_CH', count: 2, indexVar: 'g', scope: 'g_ch' });
+  });
+
+  it('should leave single FSMs without instances', async () => {
+    const [result] = await extractFSMs(loadFixture('simple-fsm.sv'));
+    expect(result.fsms[0].instances).toBeUndefined();
+  });
+});
+
+describe('Flop-per-state one-hot FSMs', () => {
+  it('should derive states and transitions from next-value equations', async () => {
+    const [analysis] = await extractFSMs(loadFixture('flop-onehot-fsm.sv'));
+    expect(analysis.fsms).toHaveLength(1);
+
+    const fsm = analysis.fsms[0];
+    expect(fsm.name).toBe('st');
+    expect(fsm.encoding).toBe('onehot');
+    expect(fsm.resetState).toBe('st_idle');
+    expect(fsm.states.map((s) => s.name)).toEqual(['st_idle', 'st_run', 'st_done']);
+    expect(fsm.transitions.map((t) => `${t.from}->${t.to} [${t.condition ?? ''}] @${t.line}`)).toEqual([
+      'st_idle->st_idle [~go] @16',
+      'st_idle->st_run [go] @17',
+      'st_run->st_run [~done] @17',
+      'st_run->st_done [done] @18',
+      'st_done->st_idle [] @16',
+    ]);
+    expect(fsm.inputSignals).toEqual(['go', 'done']);
+  });
+
+  it('should reject flops that are not mutually exclusive', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input clk, rst, a, b);
+  reg x, y;
+  always @(posedge clk)
+    if (rst) begin x <= 1'b1; y <= 1'b1; end
+    else begin x <= y & a; y <= x & b; end
+endmodule`);
+    expect(analysis.fsms).toHaveLength(0);
+  });
+});
+
+describe('Parameterized encodings', () => {
+  it('should evaluate constant expressions', () => {
+    const params = new Map([['W', 3], ['DEPTH', 10]]);
+    expect(evaluateConstant("W'(5)", params)).toBe(5);
+    expect(evaluateConstant("2'(W + 2)", params)).toBe(1);
+    expect(evaluateConstant('(1 << W) - 1', params)).toBe(7);
+    expect(evaluateConstant('$clog2(DEPTH)', params)).toBe(4);
+    expect(evaluateConstant("my_pkg::W > 2 ? 4'hA : 'd3", params)).toBe(10);
+    expect(evaluateConstant("'1", params, 3)).toBe(7);
+    expect(evaluateConstant("'{default: 1'b1}", params, 4)).toBe(15);
+    expect(evaluateConstant('UNKNOWN + 1', params)).toBeNull();
+    expect(evaluateConstant("2'bx1", params)).toBeNull();
+  });
+
+  it('should compute widths and encodings of parameterized enums', async () => {
+    const tree = await parseSystemVerilog(`
+module m #(parameter int W = 3) (input logic clk);
+  localparam int BASE = 1 << (W - 1);
+  typedef enum logic [W-1:0] {IDLE = W'(0), RUN = W'(BASE), DONE = BASE + 2} state_t;
+endmodule`);
+    const [enumDef] = detectEnumDefinitions(tree.rootNode);
+    expect(enumDef.width).toBe(3);
+    expect(enumDef.states.map((s) => `${s.name}=${s.value}`)).toEqual(['IDLE=0', 'RUN=4', 'DONE=6']);
+  });
+
+  it('should not truncate encodings when the base type is a typedef', async () => {
+    const tree = await parseSystemVerilog(`
+module m (input logic clk);
+  typedef logic [2:0] my_base_t;
+  typedef enum my_base_t {IDLE = 3'd0, RUN = 3'd2, DONE = 3'd5} state_t;
+endmodule`);
+    const enumDef = detectEnumDefinitions(tree.rootNode).find((e) => e.typeName === 'state_t')!;
+    expect(enumDef.width).toBeUndefined();
+    expect(enumDef.states.map((s) => `${s.name}=${s.value}`)).toEqual(['IDLE=0', 'RUN=2', 'DONE=5']);
+  });
+
+  it('should classify parameterized encodings and match literal labels', async () => {
+    const [result] = await extractFSMs(`
+module m #(parameter W = 4) (input logic clk, rst_n, go);
+  typedef enum logic [W-1:0] {IDLE = W'(1), RUN = W'(2), DONE = W'(1 << 2)} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = RUN;
+      4'b0010: next_state = DONE;
+      DONE: next_state = IDLE;
+    endcase
+  end
+endmodule`);
+    const fsm = result.fsms[0];
+    expect(fsm.encoding).toBe('onehot');
+    expect(fsm.transitions.map((t) => `${t.from}->${t.to}`)).toEqual(['IDLE->RUN', 'RUN->DONE', 'DONE->IDLE']);
+  });
+
+  it('should keep parameter state sets defined with expressions', async () => {
+    const [result] = await extractFSMs(`
+module m (input clk, rst, go);
+  localparam S_IDLE = 0, S_RUN = S_IDLE + 1, S_DONE = S_RUN + 1;
+  reg [1:0] state;
+  always @(posedge clk)
+    if (rst) state <= S_IDLE;
+    else case (state)
+      S_IDLE: if (go) state <= S_RUN;
+      S_RUN: state <= S_DONE;
+      S_DONE: state <= S_IDLE;
+    endcase
+endmodule`);
+    expect(result.fsms[0].states.map((s) => s.name)).toEqual(['S_IDLE', 'S_RUN', 'S_DONE']);
+    expect(result.fsms[0].encoding).toBe('binary');
+  });
+});
+
+describe('Unused encodings', () => {
+  const source = (defaultItem: string) => `
+module m (input logic clk, rst_n, go);
+  typedef enum logic [2:0] {IDLE, LOAD, RUN, FLUSH, DONE} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = LOAD;
+      LOAD: next_state = RUN;
+      RUN: next_state = FLUSH;
+      FLUSH: next_state = DONE;
+      DONE: next_state = IDLE;
+      ${defaultItem}
+    endcase
+  end
+endmodule`;
+
+  it('should list unused codes and the default recovery state', async () => {
+    const [result] = await extractFSMs(source('default: next_state = IDLE;'));
+    const fsm = result.fsms[0];
+    expect(fsm.unusedEncodings).toEqual({
+      width: 3,
+      count: 3,
+      codes: ["3'b101", "3'b110", "3'b111"],
+      recoveryState: 'IDLE',
+    });
+    expect(fsm.warnings.filter((w) => w.type === 'unhandled_encoding')).toHaveLength(0);
+  });
+
+  it('should warn when no default item leads to a known state', async () => {
+    for (const defaultItem of ['', 'default: next_state = state;', "default: next_state = state_t'('x);"]) {
+      const [result] = await extractFSMs(source(defaultItem));
+      const fsm = result.fsms[0];
+      expect(fsm.unusedEncodings?.recoveryState).toBeUndefined();
+      const warning = fsm.warnings.find((w) => w.type === 'unhandled_encoding');
+      expect(warning?.encodings).toEqual(["3'b101", "3'b110", "3'b111"]);
+    }
+  });
+
+  it('should give named states only the default covers the recovery edge', async () => {
+    const [result] = await extractFSMs(
+      source('default: next_state = IDLE;').replace('      DONE: next_state = IDLE;\n', '')
+    );
+    const fsm = result.fsms[0];
+    expect(fsm.unusedEncodings?.recoveryState).toBe('IDLE');
+    expect(fsm.transitions.filter((t) => t.from === 'DONE').map((t) => [t.to, t.isDefault])).toEqual([['IDLE', true]]);
+    expect(fsm.warnings.some((w) => w.type === 'missing_case' || w.type === 'terminal_state')).toBe(false);
+  });
+
+  it('should not report fully used or int-based state types', async () => {
+    const [full] = await extractFSMs(source('').replace('DONE}', 'DONE, E5, E6, E7}'));
+    expect(full.fsms[0].unusedEncodings).toBeUndefined();
+
+    const [int] = await extractFSMs(source('').replace('enum logic [2:0]', 'enum'));
+    expect(int.fsms[0].unusedEncodings).toBeUndefined();
+  });
+
+  it('should take the width of parameter-encoded states from the register', async () => {
+    const [result] = await extractFSMs(`
+module m (input clk, rst, go);
+  localparam IDLE = 2'd0, RUN = 2'd1, DONE = 2'd2;
+  reg [1:0] state;
+  always @(posedge clk)
+    if (rst) state <= IDLE;
+    else case (state)
+      IDLE: if (go) state <= RUN;
+      RUN: state <= DONE;
+      DONE: state <= IDLE;
+    endcase
+endmodule`);
+    const fsm = result.fsms[0];
+    expect(fsm.unusedEncodings).toEqual({ width: 2, count: 1, codes: ["2'b11"] });
+    expect(fsm.warnings.find((w) => w.type === 'unhandled_encoding')?.encodings).toEqual(["2'b11"]);
+  });
+});
+
+describe('Three-block output logic', () => {
+  it('should take Moore and input-guarded outputs from the output block', async () => {
+    const [analysis] = await extractFSMs(loadFixture('three-block-fsm.sv'));
+    const fsm = analysis.fsms[0];
+    expect(fsm.blockStyle).toBe('three-block');
+    expect(fsm.states.map((s) => [s.name, s.outputs.map((o) => `${o.signal}=${o.value}`)])).toEqual([
+      ['IDLE', ['ready=1\'b1']],
+      ['RUN', ['busy=1\'b1']],
+      ['DONE', ['ready=1\'b1']],
+    ]);
+    expect(fsm.states[1].mealyOutputs).toEqual([{ signal: 'irq', value: "1'b1", line: 44, condition: 'err', kind: 'mealy' }]);
+    expect(fsm.outputSignals.sort()).toEqual(['busy', 'irq', 'ready']);
+    expect(fsm.inputSignals).toContain('err');
+    expect(fsm.regions?.map((r) => r.line)).toEqual([25, 17, 36]);
+  });
+
+  it('should show input-guarded state outputs in the diagram', async () => {
+    const mermaid = await extract(loadFixture('three-block-fsm.sv'), { outputs: true });
+    expect(mermaid).toContain('RUN: busy=1');
+    expect(mermaid).toContain('RUN: err / irq=1');
+  });
+});
+
+describe('Outputs decoded from state comparisons', () => {
+  const source = `
+module m (input logic clk, rst_n, go, stall, output logic busy, done, ack, ready, output logic [1:0] mode);
+  typedef enum logic [1:0] {IDLE, RUN, WAIT, DONE} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: if (stall) next_state = WAIT; else next_state = DONE;
+      WAIT: if (!stall) next_state = RUN;
+      DONE: next_state = IDLE;
+    endcase
+  end
+  assign busy = (state == RUN) || (state == WAIT);
+  assign done = state inside {DONE};
+  assign mode = (state == RUN) ? 2'd1 : (state == 2'b11) ? 2'd2 : 2'd0;
+  assign ack = (state == IDLE) & go;
+  always_comb ready = !(state != IDLE);
+endmodule`;
+
+  it('should map continuous assigns onto each state as Moore outputs', async () => {
+    const [result] = await extractFSMs(source);
+    const fsm = result.fsms[0];
+    const table = Object.fromEntries(
+      fsm.states.map((s) => [s.name, s.outputs.map((o) => `${o.signal}=${o.value}`).join(' ')])
+    );
+    expect(table).toEqual({
+      IDLE: "busy=1'b0 done=1'b0 mode=2'd0 ready=1'b1",
+      RUN: "busy=1'b1 done=1'b0 mode=2'd1 ack=1'b0 ready=1'b0",
+      WAIT: "busy=1'b1 done=1'b0 mode=2'd0 ack=1'b0 ready=1'b0",
+      DONE: "busy=1'b0 done=1'b1 mode=2'd2 ack=1'b0 ready=1'b0",
+    });
+    expect(fsm.states[0].mealyOutputs).toEqual([{ signal: 'ack', value: "1'b1", line: 19, condition: 'go', kind: 'mealy' }]);
+    expect(fsm.outputSignals).toEqual(expect.arrayContaining(['busy', 'done', 'mode', 'ack', 'ready']));
+  });
+
+  it('should keep input-dependent decodes as Mealy outputs of the state', async () => {
+    const source2 = source.replace("assign ack = (state == IDLE) & go;", "assign ack = (state == IDLE) && go && !stall;");
+    const [result] = await extractFSMs(source2);
+    const idle = result.fsms[0].states.find((s) => s.name === 'IDLE')!;
+    expect(idle.outputs.map((o) => o.signal)).not.toContain('ack');
+    expect(idle.mealyOutputs).toEqual([{ signal: 'ack', value: "1'b1", line: 19, condition: 'go && !stall', kind: 'mealy' }]);
+  });
+
+  it('should skip expressions that use the state another way', async () => {
+    const [result] = await extractFSMs(source.replace('assign busy = (state == RUN) || (state == WAIT);', 'assign busy = state[0];'));
+    expect(result.fsms[0].outputSignals).not.toContain('busy');
+  });
+});
+
+describe('Default output assignments', () => {
+  it('should apply defaults to every state and mark them inherited', async () => {
+    const [analysis] = await extractFSMs(loadFixture('simple-fsm.sv'));
+    const fsm = analysis.fsms[0];
+    expect(fsm.defaultOutputs?.map((o) => `${o.signal}=${o.value}`)).toEqual(["busy=1'b0", "ready=1'b0"]);
+
+    const table = getOutputTable(fsm);
+    expect(table.signals).toEqual(['busy', 'ready']);
+    expect(
+      table.rows.map((row) => [
+        row.state,
+        table.signals.map((signal) => `${signal}=${row.values[signal].value}${row.values[signal].isInherited ? '*' : ''}`),
+      ])
+    ).toEqual([
+      ['IDLE', ["busy=1'b0*", "ready=1'b1"]],
+      ['RUN', ["busy=1'b1", "ready=1'b0*"]],
+      ['DONE', ["busy=1'b0*", "ready=1'b0*"]],
+    ]);
+  });
+
+  it('should give transitions the source state outputs with their own applied', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst_n, go, output logic ack, busy);
+  typedef enum logic {IDLE, RUN} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    ack = 1'b0;
+    busy = 1'b0;
+    case (state)
+      IDLE: if (go) begin ack = 1'b1; next_state = RUN; end
+      RUN: begin busy = 1'b1; next_state = IDLE; end
+    endcase
+  end
+endmodule`);
+    const fsm = analysis.fsms[0];
+    const idleToRun = fsm.transitions.find((t) => t.from === 'IDLE' && t.to === 'RUN')!;
+    expect(idleToRun.effectiveOutputs?.map((o) => `${o.signal}=${o.value}${o.isInherited ? '*' : ''}`)).toEqual([
+      "ack=1'b1",
+      "busy=1'b0*",
+    ]);
+    const runToIdle = fsm.transitions.find((t) => t.from === 'RUN')!;
+    expect(runToIdle.effectiveOutputs?.map((o) => `${o.signal}=${o.value}${o.isInherited ? '*' : ''}`)).toEqual([
+      "ack=1'b0*",
+      "busy=1'b1",
+    ]);
+  });
+
+  it('should take a default written on the same line as the case', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst_n, go, output logic busy, ack);
+  typedef enum logic {IDLE, RUN} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state; ack = 1'b0;
+    busy = 1'b0; case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: begin busy = 1'b1; next_state = IDLE; end
+    endcase
+    ack = go;
+  end
+endmodule`);
+    const fsm = analysis.fsms[0];
+    expect(fsm.defaultOutputs?.map((o) => `${o.signal}=${o.value}`)).toEqual(["ack=1'b0", "busy=1'b0"]);
+  });
+
+  it('should list inherited values in the diagram on request', async () => {
+    const [analysis] = await extractFSMs(loadFixture('simple-fsm.sv'));
+    const mermaid = generateMermaid(analysis.fsms[0], { showOutputs: true, showInheritedOutputs: true });
+    expect(mermaid).toContain('DONE: busy=0 (default)');
+    expect(generateMermaid(analysis.fsms[0], { showOutputs: true })).not.toContain('(default)');
+  });
+});
+
+describe('Registered outputs', () => {
+  it('should mark outputs of a one-block FSM as registered on the transition', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst_n, go, output logic busy);
+  typedef enum logic {IDLE, RUN} state_t;
+  state_t state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE;
+    else case (state)
+      IDLE: if (go) begin busy <= 1'b1; state <= RUN; end
+      RUN: begin busy <= 1'b0; state <= IDLE; end
+    endcase
+endmodule`);
+    const fsm = analysis.fsms[0];
+    expect(fsm.transitions.find((t) => t.from === 'IDLE')!.outputs[0].kind).toBe('registered-transition');
+    expect(fsm.states[1].outputs[0].kind).toBe('registered-transition');
+  });
+
+  it('should classify output flops loaded from the next state', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst_n, go, done, output logic busy_q, done_q);
+  typedef enum logic [1:0] {IDLE, RUN, FIN} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: if (done) next_state = FIN;
+      FIN: next_state = IDLE;
+    endcase
+  end
+  always_ff @(posedge clk) begin
+    busy_q <= 1'b0;
+    case (next_state)
+      RUN: busy_q <= 1'b1;
+    endcase
+  end
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) done_q <= 1'b0;
+    else done_q <= (next_state == FIN);
+endmodule`);
+    const fsm = analysis.fsms[0];
+    expect(fsm.blockStyle).toBe('three-block');
+    const run = fsm.states.find((s) => s.name === 'RUN')!;
+    expect(run.outputs.map((o) => `${o.signal}=${o.value}:${o.kind}`)).toEqual([
+      "busy_q=1'b1:registered-next-state",
+      "done_q=1'b0:registered-next-state",
+    ]);
+    const fin = fsm.states.find((s) => s.name === 'FIN')!;
+    expect(fin.outputs.find((o) => o.signal === 'done_q')?.value).toBe("1'b1");
+    expect(fsm.outputSignals).toContain('done_q');
+  });
+
+  it('should put flops loaded on a state and input condition on the transition', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst_n, start, output logic busy_q);
+  typedef enum logic {IDLE, RUN} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (start) next_state = RUN;
+      RUN: next_state = IDLE;
+    endcase
+  end
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) busy_q <= 1'b0;
+    else if (state == IDLE && start) busy_q <= 1'b1;
+endmodule`);
+    const fsm = analysis.fsms[0];
+    const idleToRun = fsm.transitions.find((t) => t.from === 'IDLE' && t.to === 'RUN')!;
+    expect(idleToRun.outputs).toEqual([{ signal: 'busy_q', value: "1'b1", line: 16, kind: 'registered-transition' }]);
+    expect(fsm.states.every((s) => !s.mealyOutputs?.length)).toBe(true);
+    expect(generateMermaid(fsm, { showOutputs: true })).toContain('IDLE --> RUN: start / busy_q=1 (reg)');
+  });
+
+  it('should match the transition when the guard is written differently in the two blocks', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst_n, start, hold, output logic busy_q);
+  typedef enum logic {IDLE, RUN} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (start&&!hold) next_state = RUN;
+      RUN: next_state = IDLE;
+    endcase
+  end
+  always_ff @(posedge clk)
+    if ((!hold) && (state == IDLE) && (start)) busy_q <= 1'b1;
+endmodule`);
+    const fsm = analysis.fsms[0];
+    const idleToRun = fsm.transitions.find((t) => t.from === 'IDLE' && t.to === 'RUN')!;
+    expect(idleToRun.outputs.map((o) => `${o.signal}=${o.value}`)).toEqual(["busy_q=1'b1"]);
+    expect(fsm.states[0].mealyOutputs).toBeUndefined();
+  });
+
+  it('should put flops loaded in an if/else-if chain on the state on the transition', async () => {
+    const [analysis] = await extractFSMs(`
+module m (input logic clk, rst, go, done, output logic started_q);
+  typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk)
+    if (rst) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: if (done) next_state = DONE;
+      DONE: next_state = IDLE;
+    endcase
+  end
+  always_ff @(posedge clk)
+    if (rst) started_q <= 1'b0;
+    else if (state == IDLE && go) started_q <= 1'b1;
+    else if (state == DONE) started_q <= 1'b0;
+endmodule`);
+    const fsm = analysis.fsms[0];
+    expect(fsm.blockStyle).toBe('two-block');
+    const idleToRun = fsm.transitions.find((t) => t.from === 'IDLE' && t.to === 'RUN')!;
+    expect(idleToRun.outputs).toEqual([{ signal: 'started_q', value: "1'b1", line: 17, kind: 'registered-transition' }]);
+    expect(fsm.states.find((s) => s.name === 'IDLE')!.mealyOutputs).toBeUndefined();
+  });
+});
+
+describe('Stable IDs', () => {
+  const source = `
+module m (input logic clk, rst_n, a, b, output logic x, y);
+  typedef enum logic {IDLE, RUN} state_t;
+  state_t state, next_state;
+  always_ff @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE; else state <= next_state;
+  always_comb begin
+    next_state = state;
+    x = 1'b0;
+    y = 1'b0;
+    case (state)
+      IDLE: begin
+        if (a) begin x = 1'b1; next_state = RUN; end
+        else if (b) begin y = 1'b1; next_state = RUN; end
+      end
+      RUN: next_state = IDLE;
+    endcase
+  end
+endmodule`;
+
+  it('should keep the outputs of guarded transitions between the same states apart', async () => {
+    const [analysis] = await extractFSMs(source);
+    const fsm = analysis.fsms[0];
+    const idleToRun = fsm.transitions.filter((t) => t.from === 'IDLE' && t.to === 'RUN');
+    expect(idleToRun.map((t) => t.outputs.map((o) => o.signal))).toEqual([['x'], ['y']]);
+    expect(idleToRun[0].id).toMatch(/^IDLE->RUN@13#[0-9a-f]{8}$/);
+    expect(idleToRun[1].id).toMatch(/^IDLE->RUN@14#[0-9a-f]{8}$/);
+    expect(fsm.transitions.find((t) => t.from === 'RUN')!.id).toBe('RUN->IDLE@16');
+  });
+
+  it('should give states IDs and keep all IDs unique and unchanged across runs', async () => {
+    const [first] = await extractFSMs(source);
+    const [second] = await extractFSMs(source);
+    const fsm = first.fsms[0];
+    expect(fsm.states.map((s) => s.id)).toEqual(['IDLE@3', 'RUN@3']);
+    const ids = fsm.transitions.map((t) => t.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(second.fsms[0].transitions.map((t) => t.id)).toEqual(ids);
+    expect(JSON.parse(await extract(source, { format: 'json' })).transitions[0].id).toBe(ids[0]);
+  });
+
+  it('should pass state IDs to click handlers', async () => {
+    const [analysis] = await extractFSMs(source);
+    expect(generateMermaidWithClickHandlers(analysis.fsms[0])).toContain('click IDLE call handleStateClick("IDLE@3", 3)');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readFileList } from '../cli/filelist.js';
+
+describe('readFileList', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'fsm-viz-filelist-'));
+    mkdirSync(join(dir, 'ip', 'rtl'), { recursive: true });
+    writeFileSync(join(dir, 'top.f'), [
+      '// Project filelist',
+      '+incdir+include+common',
+      '+define+ST_ENC=2+USE_ONEHOT',
+      'pkg.sv',
+      '-F ip/ip.f',
+      '-f extra.f',
+      '+libext+.sv',
+    ].join('\n'));
+    writeFileSync(join(dir, 'ip', 'ip.f'), 'rtl/fsm.sv\n# shell-style comment\n');
+    writeFileSync(join(dir, 'extra.f'), '/* block\n comment */ top.sv pkg.sv\n');
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should collect files from nested filelists in order', () => {
+    const list = readFileList('top.f', dir);
+    expect(list.files).toEqual([
+      join(dir, 'pkg.sv'),
+      join(dir, 'ip', 'rtl', 'fsm.sv'), // -F: relative to ip/ip.f
+      join(dir, 'top.sv'),
+    ]);
+  });
+
+  it('should collect include directories and defines', () => {
+    const list = readFileList('top.f', dir);
+    expect(list.includeDirs).toEqual([join(dir, 'include'), join(dir, 'common')]);
+    expect(list.defines).toEqual({ ST_ENC: '2', USE_ONEHOT: '' });
+  });
+
+  it('should reject filelists that include themselves', () => {
+    writeFileSync(join(dir, 'loop.f'), '-f loop.f\n');
+    expect(() => readFileList('loop.f', dir)).toThrow(/includes itself/);
+  });
+});
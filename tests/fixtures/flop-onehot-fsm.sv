@@ -0,0 +1,22 @@
+// Verilog-2001 one-hot FSM with one flop per state
+module flop_onehot_fsm (clk, rst, go, done, busy);
+input  clk, rst, go, done;
+output busy;
+
+reg st_idle, st_run, st_done;
+reg busy;
+
+always @(posedge clk)
+    if (rst) begin
+        st_idle <= 1'b1;
+        st_run  <= 1'b0;
+        st_done <= 1'b0;
+        busy    <= 1'b0;
+    end else begin
+        st_idle <= st_idle & ~go | st_done;
+        st_run  <= (st_idle & go) | (st_run & ~done);
+        st_done <= st_run && done;
+        busy    <= st_run;
+    end
+
+endmodule
@@ -0,0 +1,42 @@
+// One-hot FSM in the reverse-case style
+module onehot_fsm (
+    input  clk,
+    input  rst,
+    input  start,
+    input  done,
+    output reg busy
+);
+
+// State bit positions
+localparam IDLE_B = 0;
+localparam RUN_B  = 1;
+localparam DONE_B = 2;
+
+reg [2:0] state, next_state;
+
+always @(posedge clk) begin
+    if (rst)
+        state <= 3'b001;
+    else
+        state <= next_state;
+end
+
+always @(*) begin
+    next_state = 3'b000;
+    busy = 1'b0;
+
+    case (1'b1) // synopsys parallel_case
+        state[IDLE_B]: begin
+            if (start) next_state[RUN_B] = 1'b1;
+            else       next_state[IDLE_B] = 1'b1;
+        end
+        state[RUN_B]: begin
+            busy = 1'b1;
+            if (done) next_state[DONE_B] = 1'b1;
+            else      next_state[RUN_B] = 1'b1;
+        end
+        state[DONE_B]: next_state[IDLE_B] = 1'b1;
+    endcase
+end
+
+endmodule
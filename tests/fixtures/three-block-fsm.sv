@@ -0,0 +1,51 @@
+// Three-block FSM: state register, next-state logic, output decode
+module three_block_fsm (
+    input  logic clk,
+    input  logic rst_n,
+    input  logic start,
+    input  logic done,
+    input  logic err,
+    output logic busy,
+    output logic ready,
+    output logic irq
+);
+
+typedef enum logic [1:0] {IDLE, RUN, DONE} state_t;
+state_t state, next_state;
+
+// State register
+always_ff @(posedge clk or negedge rst_n) begin
+    if (!rst_n)
+        state <= IDLE;
+    else
+        state <= next_state;
+end
+
+// Next-state logic
+always_comb begin
+    next_state = state;
+    case (state)
+        IDLE: if (start) next_state = RUN;
+        RUN:  if (done) next_state = DONE;
+        DONE: next_state = IDLE;
+        default: next_state = IDLE;
+    endcase
+end
+
+// Output logic
+always_comb begin
+    busy = 1'b0;
+    ready = 1'b0;
+    irq = 1'b0;
+    case (state)
+        IDLE: ready = 1'b1;
+        RUN: begin
+            busy = 1'b1;
+            if (err) irq = 1'b1;
+        end
+        DONE: ready = 1'b1;
+        default: ;
+    endcase
+end
+
+endmodule
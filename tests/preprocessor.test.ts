@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { preprocess, createMacroTable } from '../src/parser/preprocessor.js';
+import { extractFSMs } from '../src/index.js';
+
+describe('preprocess', () => {
+  it('should expand object-like and function-like macros', () => {
+    const result = preprocess([
+      '`define ST_IDLE 2\'d0',
+      '`define PLUS(a, b=1) ((a) + (b))',
+      'assign x = `ST_IDLE;',
+      'assign y = `PLUS(z);',
+    ].join('\n'));
+
+    const lines = result.source.split('\n');
+    expect(lines[2]).toBe("assign x = 2'd0;");
+    expect(lines[3]).toBe('assign y = ((z) + (1));');
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should keep only the active `ifdef branch and preserve line numbers', () => {
+    const source = [
+      '`ifdef ONEHOT',
+      'localparam IDLE = 3\'b001;',
+      '`elsif GRAY',
+      'localparam IDLE = 2\'b00;',
+      '`else',
+      'localparam IDLE = 0;',
+      '`endif',
+    ].join('\n');
+
+    const lines = preprocess(source, { defines: { GRAY: '' } }).source.split('\n');
+    expect(lines).toHaveLength(7);
+    expect(lines[3]).toBe("localparam IDLE = 2'b00;");
+    expect(lines.filter((l) => l.trim() !== '')).toHaveLength(1);
+  });
+
+  it('should splice includes and map their lines back', () => {
+    const result = preprocess('module m;\n`include "states.svh"\nendmodule', {
+      resolveInclude: (name) => ({ path: `inc/${name}`, source: 'typedef enum { A, B } s_t;' }),
+    });
+
+    expect(result.source.split('\n')).toEqual(['module m;', 'typedef enum { A, B } s_t;', 'endmodule']);
+    expect(result.lineMap[1]).toEqual({ file: 'inc/states.svh', line: 1 });
+    expect(result.lineMap[2]).toEqual({ file: undefined, line: 3 });
+  });
+
+  it('should report unresolved includes and unbalanced conditionals', () => {
+    const result = preprocess('`include "missing.svh"\n`ifdef A\n', {}, 'top.sv');
+    expect(result.errors).toEqual([
+      { kind: 'preprocessor', message: 'Cannot resolve `include "missing.svh"', line: 1, file: 'top.sv' },
+      { kind: 'preprocessor', message: 'Missing `endif', line: 2, file: 'top.sv' },
+    ]);
+  });
+
+  it('should report conditionals after other text on a line', () => {
+    const result = preprocess('state_t s; `ifdef FOO\nassign x = 1;\n`endif\n', {}, 'top.sv');
+    expect(result.errors).toEqual([
+      { kind: 'preprocessor', message: '`ifdef after other text on a line is not supported', line: 1, file: 'top.sv' },
+      { kind: 'preprocessor', message: '`endif without `ifdef', line: 3, file: 'top.sv' },
+    ]);
+  });
+
+  it('should carry macros across files sharing a table', () => {
+    const macros = createMacroTable({ WIDTH: '4' });
+    preprocess('`define DONE 2\'d3', {}, 'a.sv', macros);
+    expect(preprocess('x = `DONE + `WIDTH;', {}, 'b.sv', macros).source).toBe("x = 2'd3 + 4;");
+  });
+});
+
+describe('Extraction with preprocessing', () => {
+  it('should extract macro-encoded states at their original lines', async () => {
+    const source = `\`define S_IDLE 2'd0
+\`define S_RUN  2'd1
+\`include "types.svh"
+module m (input clk, input rst_n, input go);
+  reg [1:0] state, next_state;
+  localparam IDLE = \`S_IDLE, RUN = \`S_RUN;
+  always @(posedge clk or negedge rst_n)
+    if (!rst_n) state <= IDLE;
+    else state <= next_state;
+  always @(*) begin
+    next_state = state;
+    case (state)
+      IDLE: if (go) next_state = RUN;
+      RUN: next_state = IDLE;
+    endcase
+  end
+endmodule`;
+
+    const [analysis] = await extractFSMs(source, {
+      resolveInclude: () => ({ path: 'types.svh', source: '// shared types\n// (none)' }),
+    });
+
+    expect(analysis.fsms).toHaveLength(1);
+    const fsm = analysis.fsms[0];
+    expect(fsm.states.map((s) => [s.name, s.encoding, s.line])).toEqual([
+      ['IDLE', "2'd0", 6],
+      ['RUN', "2'd1", 6],
+    ]);
+    expect(fsm.transitions.find((t) => t.from === 'IDLE' && t.to === 'RUN')?.line).toBe(13);
+  });
+});
@@ -23,7 +23,8 @@ const statsOutput = document.getElementById('statsOutput') as HTMLDivElement;
 const toast = document.getElementById('toast') as HTMLDivElement;
 
 // State
-let currentAnalysis: ModuleAnalysis | null = null;
+let currentAnalyses: ModuleAnalysis[] = [];
+let currentFSMs: FSM[] = [];
 let selectedFSM: FSM | null = null;
 
 // Initialize mermaid
@@ -62,25 +63,29 @@ extractBtn.addEventListener('click', async () => {
   extractBtn.textContent = 'Extracting...';
 
   try {
-    currentAnalysis = await extractFSMs(source);
+    currentAnalyses = await extractFSMs(source);
+    currentFSMs = currentAnalyses.flatMap((a) => a.fsms);
 
-    if (currentAnalysis.fsms.length === 0) {
+    if (currentFSMs.length === 0) {
       showToast('No FSM detected in the code', true);
       return;
     }
 
-    // Update FSM selector if multiple FSMs
-    if (currentAnalysis.fsms.length > 1) {
+    // Update FSM selector if multiple FSMs (prefixed by module when there are several)
+    if (currentFSMs.length > 1) {
+      const labels = currentAnalyses.flatMap((a) =>
+        a.fsms.map((fsm) => (currentAnalyses.length > 1 ? `${a.moduleName}: ${fsm.name}` : fsm.name))
+      );
       fsmSelectorGroup.style.display = 'block';
-      fsmSelector.innerHTML = currentAnalysis.fsms
-        .map((fsm, i) => `<option value="${i}">${fsm.name}</option>`)
+      fsmSelector.innerHTML = labels
+        .map((label, i) => `<option value="${i}">${label}</option>`)
         .join('');
     } else {
       fsmSelectorGroup.style.display = 'none';
     }
 
     // Select first FSM
-    selectedFSM = currentAnalysis.fsms[0];
+    selectedFSM = currentFSMs[0];
 
     // Render
     await renderOutput();
@@ -97,9 +102,9 @@ extractBtn.addEventListener('click', async () => {
 
 // FSM selector change
 fsmSelector.addEventListener('change', async () => {
-  if (currentAnalysis) {
+  if (currentFSMs.length > 0) {
     const index = parseInt(fsmSelector.value, 10);
-    selectedFSM = currentAnalysis.fsms[index];
+    selectedFSM = currentFSMs[index];
     await renderOutput();
   }
 });
@@ -164,6 +169,11 @@ async function renderOutput(): Promise<void> {
       <div class="stat-value">${(selectedFSM.confidence * 100).toFixed(0)}%</div>
       <div class="stat-label">Confidence</div>
     </div>
+    ${selectedFSM.instances ? `
+    <div class="stat-item">
+      <div class="stat-value">${selectedFSM.instances.count ?? selectedFSM.instances.countExpr}</div>
+      <div class="stat-label">Instances</div>
+    </div>` : ''}
   `;
 }
 
@@ -177,15 +187,18 @@ function addStateClickHandlers(): void {
   // Find state nodes (g elements with class "node")
   const stateNodes = svg.querySelectorAll('g.node');
 
+  // Tag each node with its state's stable ID; clicks look the state up by it
   stateNodes.forEach((node) => {
+    const text = node.querySelector('text')?.textContent;
+    const state = selectedFSM?.states.find((s) => s.name === text);
+    if (!state?.id) return;
+
+    node.setAttribute('data-state-id', state.id);
     (node as HTMLElement).style.cursor = 'pointer';
-    node.addEventListener('click', (e) => {
-      const text = node.querySelector('text')?.textContent;
-      if (text && selectedFSM) {
-        const state = selectedFSM.states.find((s) => s.name === text);
-        if (state) {
-          highlightSourceLine(state.line);
-        }
+    node.addEventListener('click', () => {
+      const clicked = selectedFSM?.states.find((s) => s.id === node.getAttribute('data-state-id'));
+      if (clicked) {
+        highlightSourceLine(clicked.line);
       }
     });
   });
@@ -242,7 +255,8 @@ resetBtn.addEventListener('click', () => {
   sourceInput.value = '';
   updateLineNumbers();
   outputSection.style.display = 'none';
-  currentAnalysis = null;
+  currentAnalyses = [];
+  currentFSMs = [];
   selectedFSM = null;
   fsmSelectorGroup.style.display = 'none';
 });